@@ -1,8 +1,42 @@
-import { Clock } from "three";
-import { PlayerObject } from "./model.js";
+import { Clock, Euler, Object3D, Quaternion } from "three";
+import { ELYTRA_WING_POSES, lerpElytraWingPose, PlayerObject } from "./model.js";
+import { applyPose, getPoseBones, POSES, POSE_BONE_NAMES } from "./pose.js";
 
 export interface IAnimation {
+	/**
+	 * In a composite animation, each animation that is not a layer is played from the standing pose
+	 * (see `PlayerObject.resetPose`), not from what the other animations did: reading a bone gives its value
+	 * in the standing pose, and changes relative to the current value are relative to the standing pose.
+	 * Only the values that the animation sets are mixed with the other animations.
+	 */
 	play(player: PlayerObject, time: number): void;
+
+	/**
+	 * The length of the animation, in seconds. Animations without a duration never finish.
+	 * Functions can have this property too.
+	 */
+	readonly duration?: number;
+
+	/**
+	 * Whether the animation starts over after `duration`, instead of finishing. Default is false.
+	 */
+	readonly loop?: boolean;
+
+	/**
+	 * Whether the animation adjusts the pose made by the other animations instead of setting a pose,
+	 * such as turning the head toward a point. Default is false.
+	 *
+	 * In a composite animation, layers are played on the mixed pose, after the other animations,
+	 * in the order they were added. Their weight fades their changes in and out.
+	 */
+	readonly layer?: boolean;
+
+	/**
+	 * Called when the animation is removed from a composite animation, with the player it was last played on,
+	 * to undo what it changed besides the pose, such as the state of the elytra.
+	 * Functions can have this property too.
+	 */
+	stop?(player: PlayerObject): void;
 }
 
 export type AnimationFn = (player: PlayerObject, time: number) => void;
@@ -29,25 +63,126 @@ export interface AnimationHandle {
 }
 
 export interface SubAnimationHandle extends AnimationHandle {
+	/**
+	 * How much this animation contributes to the pose, usually from 0 to 1. Default is 1.
+	 *
+	 * Each value of the pose (a coordinate of the position or an angle of a bone) is the average of the values
+	 * set by the animations that set it, weighted by their weight. Where the total weight is less than 1,
+	 * the rest is taken from the standing pose. Values that no animation sets are left as they are.
+	 */
+	weight: number;
+
 	remove(): void;
 	resetAndRemove(): void;
+
+	/**
+	 * Changes the weight gradually to `weight` in `duration` seconds.
+	 */
+	fadeTo(weight: number, duration: number): void;
+
+	/**
+	 * Adds `animation` next to this one, fades it in while fading this one out in `duration` seconds,
+	 * and then removes this one.
+	 *
+	 * @returns the handle of the new animation
+	 */
+	crossFadeTo(animation: Animation, duration: number): SubAnimationHandle;
+
+	/**
+	 * The length of the animation, in seconds of progress, or undefined if it never finishes.
+	 * It is initialized from `animation.duration`.
+	 */
+	duration: number | undefined;
+
+	/**
+	 * Whether the animation starts over after `duration`, instead of finishing.
+	 * It is initialized from `animation.loop`.
+	 */
+	loop: boolean;
+
+	/**
+	 * Called once the progress reaches `duration`, if the animation does not loop.
+	 * After that, the animation stays at its last frame, unless another animation has been queued.
+	 */
+	onFinished: (() => void) | null;
+
+	/**
+	 * Called each time a looping animation starts over, with the number of loops completed so far.
+	 * The loops are counted in `duration`s, so for a KeyframeAnimation in "ping-pong" mode,
+	 * it is called at each end, both after playing forwards and after playing backwards.
+	 */
+	onLoop: ((loops: number) => void) | null;
+
+	/**
+	 * Resolves when the animation finishes, and rejects if the animation is removed before that.
+	 * It never settles if the animation loops or has no duration, until it is removed.
+	 *
+	 * Animations queued after this one are removed along with it, so their promises reject too.
+	 */
+	readonly finished: Promise<void>;
+
+	/**
+	 * Plays `animation` in place of this one once this one finishes.
+	 * If an animation is already queued, `animation` is queued after it.
+	 * (This is not named `then`, so that handles are not mistaken for promises.)
+	 *
+	 * ```
+	 * const wave = skinViewer.animations.add(waveEmote);
+	 * wave.queue(IdleAnimation);
+	 * ```
+	 *
+	 * @returns the handle of the queued animation, which starts playing from progress 0
+	 */
+	queue(animation: Animation): SubAnimationHandle;
 }
 
 class AnimationWrapper implements SubAnimationHandle, IAnimation {
 	speed: number = 1.0;
 	paused: boolean = false;
 	progress: number = 0;
+	weight: number = 1.0;
 	readonly animation: Animation;
 
 	private lastTime: number = 0;
 	private started: boolean = false;
 	private toResetAndRemove: boolean = false;
 
+	duration: number | undefined;
+	loop: boolean;
+	readonly layer: boolean;
+	onFinished: (() => void) | null = null;
+	onLoop: ((loops: number) => void) | null = null;
+	readonly finished: Promise<void>;
+
+	private loops: number = 0;
+	private ended: boolean = false;
+	private player: PlayerObject | null = null;
+	private resolveFinished: () => void = () => { /* replaced in the constructor */ };
+	private rejectFinished: (reason: Error) => void = () => { /* replaced in the constructor */ };
+	private next: AnimationWrapper | null = null;
+
+	private fadeFrom: number = 0;
+	private fadeTarget: number = 0;
+	private fadeDuration: number = 0;
+	private fadeElapsed: number | null = null;
+	private removeAfterFade: boolean = false;
+
 	constructor(animation: Animation) {
 		this.animation = animation;
+		const info = animation as { duration?: number; loop?: boolean; layer?: boolean };
+		this.duration = typeof info.duration === "number" ? info.duration : undefined;
+		this.loop = info.loop === true;
+		this.layer = info.layer === true;
+		this.finished = new Promise((resolve, reject) => {
+			this.resolveFinished = resolve;
+			this.rejectFinished = reject;
+		});
+		// rejections are for those who wait on the promise, the others must not get unhandled rejection errors
+		this.finished.catch(() => { /* ignored */ });
 	}
 
 	play(player: PlayerObject, time: number): void {
+		this.player = player;
 		if (this.toResetAndRemove) {
 			invokeAnimation(this.animation, player, 0);
 			this.remove();
@@ -65,69 +200,397 @@ class AnimationWrapper implements SubAnimationHandle, IAnimation {
 		if (!this.paused) {
 			this.progress += delta * this.speed;
 		}
+
+		let fadeFinished = false;
+		if (this.fadeElapsed !== null) {
+			// fades follow the time of the parent, whatever the speed of this animation
+			this.fadeElapsed += delta;
+			const t = this.fadeDuration > 0 ? clamp(this.fadeElapsed / this.fadeDuration, 0, 1) : 1;
+			this.weight = this.fadeFrom + (this.fadeTarget - this.fadeFrom) * t;
+			if (t === 1) {
+				this.fadeElapsed = null;
+				fadeFinished = true;
+			}
+		}
+
+		let looped = false;
+		let justFinished = false;
+		if (this.duration !== undefined && this.duration > 0) {
+			if (this.loop) {
+				const loops = Math.floor(this.progress / this.duration);
+				if (loops > this.loops) {
+					this.loops = loops;
+					looped = true;
+				}
+			} else if (this.progress >= this.duration) {
+				this.progress = this.duration;
+				justFinished = !this.ended;
+				this.ended = true;
+			}
+		}
+
 		invokeAnimation(this.animation, player, this.progress);
+
+		if (fadeFinished && this.removeAfterFade) {
+			this.remove();
+		}
+		if (looped && this.onLoop !== null) {
+			this.onLoop(this.loops);
+		}
+		if (justFinished) {
+			this.resolveFinished();
+			if (this.onFinished !== null) {
+				this.onFinished();
+			}
+			if (this.next !== null) {
+				this.addSibling(this.next);
+				this.next = null;
+				this.remove();
+			}
+		}
 	}
 
 	reset(): void {
 		this.progress = 0;
+		this.loops = 0;
+		this.ended = false;
+	}
+
+	start(time: number): void {
+		this.lastTime = time;
+		this.started = true;
 	}
 
 	remove(): void {
 		// stub get's overriden
 	}
 
+	/**
+	 * Stops the animation once removed. Rejects `finished`, unless the animation has finished already,
+	 * and does the same for the queued animations.
+	 */
+	cancel(): void {
+		const info = this.animation as { stop?: (player: PlayerObject) => void };
+		if (this.player !== null && info.stop instanceof Function) {
+			info.stop(this.player);
+		}
+		this.rejectFinished(new Error("The animation has been removed before it finished"));
+		if (this.next !== null) {
+			this.next.cancel();
+			this.next = null;
+		}
+	}
+
 	resetAndRemove(): void {
 		this.toResetAndRemove = true;
 	}
+
+	fadeTo(weight: number, duration: number): void {
+		this.fadeFrom = this.weight;
+		this.fadeTarget = weight;
+		this.fadeDuration = duration;
+		this.fadeElapsed = 0;
+		this.removeAfterFade = false;
+	}
+
+	crossFadeTo(animation: Animation, duration: number): SubAnimationHandle {
+		const next = new AnimationWrapper(animation);
+		next.weight = 0;
+		next.fadeTo(1, duration);
+		this.addSibling(next);
+		this.fadeTo(0, duration);
+		this.removeAfterFade = true;
+		return next;
+	}
+
+	queue(animation: Animation): SubAnimationHandle {
+		if (this.next !== null) {
+			return this.next.queue(animation);
+		}
+		this.next = new AnimationWrapper(animation);
+		return this.next;
+	}
+
+	// stub get's overriden
+	addSibling: (sibling: AnimationWrapper) => void = () => {
+		throw new Error("The animation has not been added to a composite animation");
+	};
+}
+
+const CHANNELS_PER_OBJECT = 6;
+
+function readChannels(objects: ReadonlyArray<Object3D>): Float64Array {
+	const values = new Float64Array(objects.length * CHANNELS_PER_OBJECT);
+	objects.forEach((object, i) => {
+		object.position.toArray(values, i * CHANNELS_PER_OBJECT);
+		values[i * CHANNELS_PER_OBJECT + 3] = object.rotation.x;
+		values[i * CHANNELS_PER_OBJECT + 4] = object.rotation.y;
+		values[i * CHANNELS_PER_OBJECT + 5] = object.rotation.z;
+	});
+	return values;
+}
+
+function writeChannels(objects: ReadonlyArray<Object3D>, values: Float64Array): void {
+	objects.forEach((object, i) => {
+		object.position.fromArray(values, i * CHANNELS_PER_OBJECT);
+		object.rotation.x = values[i * CHANNELS_PER_OBJECT + 3];
+		object.rotation.y = values[i * CHANNELS_PER_OBJECT + 4];
+		object.rotation.z = values[i * CHANNELS_PER_OBJECT + 5];
+	});
+}
+
+/**
+ * Records which channels of the objects are set, through accessors that replace the coordinates of their positions
+ * and the angles of their rotations until `release` is called.
+ */
+class ChannelWriteTracker {
+	written: Uint8Array;
+	private readonly releases: Array<() => void> = [];
+
+	constructor(objects: ReadonlyArray<Object3D>) {
+		this.written = new Uint8Array(objects.length * CHANNELS_PER_OBJECT);
+		objects.forEach((object, i) => {
+			this.track(object.position, ["x", "y", "z"], i * CHANNELS_PER_OBJECT);
+			// every method of Euler that changes the angles sets these
+			this.track(object.rotation, ["_x", "_y", "_z"], i * CHANNELS_PER_OBJECT + 3);
+		});
+	}
+
+	private track(target: object, keys: ReadonlyArray<string>, offset: number): void {
+		const record = target as Record<string, number>;
+		keys.forEach((key, k) => {
+			const previous = Object.getOwnPropertyDescriptor(target, key);
+			const initial = record[key];
+			let value = initial;
+			Object.defineProperty(target, key, {
+				configurable: true,
+				enumerable: true,
+				get: () => value,
+				set: (newValue: number) => {
+					value = newValue;
+					this.written[offset + k] = 1;
+				}
+			});
+			this.releases.push(() => {
+				if (previous !== undefined && previous.set !== undefined) {
+					// a composite animation within another one: the outer one sees the changes as written once
+					Object.defineProperty(target, key, previous);
+					if (value !== initial) {
+						record[key] = value;
+					}
+				} else {
+					delete record[key];
+					record[key] = value;
+				}
+			});
+		});
+	}
+
+	release(): void {
+		this.releases.forEach(release => release());
+		this.releases.length = 0;
+	}
 }
 
 export class CompositeAnimation implements IAnimation {
 
 	readonly handles: Set<SubAnimationHandle & IAnimation> = new Set();
 
+	// the pose before and after the layers, in the previous frame
+	private lastMixed: Float64Array | null = null;
+	private lastOutput: Float64Array | null = null;
+
 	add(animation: Animation): SubAnimationHandle {
 		const handle = new AnimationWrapper(animation);
+		this.attach(handle);
+		return handle;
+	}
+
+	private attach(handle: AnimationWrapper): void {
 		handle.remove = (): void => {
-			this.handles.delete(handle);
+			if (this.handles.delete(handle)) {
+				handle.cancel();
+			}
 		};
+		handle.addSibling = (sibling: AnimationWrapper): void => this.attach(sibling);
 		this.handles.add(handle);
-		return handle;
 	}
 
+	/**
+	 * Plays each animation that is not a layer, and mixes the values they set (see `SubAnimationHandle.weight`).
+	 * Then plays the layers on the result.
+	 */
 	play(player: PlayerObject, time: number): void {
-		this.handles.forEach(handle => handle.play(player, time));
+		const bones = getPoseBones(player);
+		const objects = POSE_BONE_NAMES.map(name => bones[name]);
+		const handles = Array.from(this.handles);
+		const initial = readChannels(objects);
+		player.resetPose();
+		const rest = readChannels(objects);
+
+		// the values that each animation sets are recorded, even when they are the same as in the standing pose
+		const contributions: Array<{ weight: number; values: Float64Array; written: Uint8Array }> = [];
+		const tracker = new ChannelWriteTracker(objects);
+		try {
+			handles.forEach(handle => {
+				if (handle.layer !== true) {
+					writeChannels(objects, rest);
+					tracker.written = new Uint8Array(rest.length);
+					handle.play(player, time);
+					contributions.push({ weight: Math.max(0, handle.weight), values: readChannels(objects), written: tracker.written });
+				}
+			});
+		} finally {
+			tracker.release();
+		}
+
+		const { lastMixed, lastOutput } = this;
+		const result = new Float64Array(initial.length);
+		for (let i = 0; i < result.length; i++) {
+			let totalWeight = 0;
+			let sum = 0;
+			let contributed = false;
+			contributions.forEach(({ weight, values, written }) => {
+				if (written[i] === 1) {
+					contributed = true;
+					totalWeight += weight;
+					sum += values[i] * weight;
+				}
+			});
+			if (!contributed) {
+				// if the value is still the one of the previous frame, the layers changed it, and must not do it twice
+				if (lastMixed !== null && lastOutput !== null && lastOutput[i] === initial[i]) {
+					result[i] = lastMixed[i];
+				} else {
+					result[i] = initial[i];
+				}
+			} else {
+				result[i] = sum / Math.max(1, totalWeight) + rest[i] * Math.max(0, 1 - totalWeight);
+			}
+		}
+		writeChannels(objects, result);
+		this.lastMixed = result;
+
+		handles.forEach(handle => {
+			if (handle.layer === true) {
+				const weight = clamp(handle.weight, 0, 1);
+				const before = weight < 1 ? readChannels(objects) : null;
+				handle.play(player, time);
+				if (before !== null) {
+					const after = readChannels(objects);
+					writeChannels(objects, after.map((value, i) => before[i] + (value - before[i]) * weight));
+				}
+			}
+		});
+		this.lastOutput = readChannels(objects);
+	}
+}
+
+/**
+ * Tells the root animation how much time has passed since the previous frame.
+ */
+export interface TimeSource {
+	/**
+	 * Returns the time, in seconds, to advance the animations by in this frame.
+	 * This is called once per frame, even when the animations are paused.
+	 */
+	getDelta(): number;
+}
+
+/**
+ * Follows the wall clock. This is the default time source.
+ */
+export class RealTimeSource implements TimeSource {
+	private readonly clock: Clock = new Clock(true);
+
+	getDelta(): number {
+		return this.clock.getDelta();
+	}
+}
+
+/**
+ * Only advances when `tick` is called, e.g. from a test or from another application's loop.
+ */
+export class ManualTimeSource implements TimeSource {
+	private pending: number = 0;
+
+	/**
+	 * Adds `delta` seconds, which are applied in the next frame.
+	 */
+	tick(delta: number): void {
+		this.pending += delta;
+	}
+
+	getDelta(): number {
+		const delta = this.pending;
+		this.pending = 0;
+		return delta;
+	}
+}
+
+/**
+ * Advances by the same amount in every frame, however long the frame actually took.
+ */
+export class FixedTimeSource implements TimeSource {
+	step: number;
+
+	/**
+	 * @param step - the time per frame, in seconds
+	 */
+	constructor(step: number = 1 / 60) {
+		this.step = step;
+	}
+
+	getDelta(): number {
+		return this.step;
 	}
 }
 
 export class RootAnimation extends CompositeAnimation implements AnimationHandle {
 	speed: number = 1.0;
 	progress: number = 0.0;
-	private readonly clock: Clock = new Clock(true);
+	paused: boolean = false;
+	timeSource: TimeSource = new RealTimeSource();
 
 	get animation(): RootAnimation {
 		return this;
 	}
 
-	get paused(): boolean {
-		return !this.clock.running;
-	}
-
-	set paused(value: boolean) {
-		if (value) {
-			this.clock.stop();
-		} else {
-			this.clock.start();
-		}
+	add(animation: Animation): SubAnimationHandle {
+		const handle = super.add(animation) as AnimationWrapper;
+		// starting from the current progress makes seek() land on exact times
+		handle.start(this.progress);
+		return handle;
 	}
 
 	runAnimationLoop(player: PlayerObject): void {
+		// the time is consumed even when paused, so that nothing is skipped when resuming
+		const delta = this.timeSource.getDelta();
+		if (this.paused) {
+			return;
+		}
+		// the elytra moves between its states even without animations
+		player.elytra.update(delta * this.speed);
 		if (this.handles.size === 0) {
 			return;
 		}
-		this.progress += this.clock.getDelta() * this.speed;
+		this.progress += delta * this.speed;
 		this.play(player, this.progress);
 	}
 
+	/**
+	 * Sets the progress to `time`, and applies the animations at that time.
+	 * This ignores the time source and `paused`.
+	 *
+	 * Sub-animations advance (or go back) by the difference between `time` and the previous progress,
+	 * times their own speed. The transitions of the elytra advance by that difference too, but never go back.
+	 */
+	seek(player: PlayerObject, time: number): void {
+		player.elytra.update(Math.max(0, time - this.progress));
+		this.progress = time;
+		this.play(player, time);
+	}
+
 	reset(): void {
 		this.progress = 0;
 	}
@@ -219,7 +682,11 @@ function clamp(num: number, min: number, max: number): number {
 	return num <= min ? min : num >= max ? max : num;
 }
 
-export const FlyingAnimation: Animation = (player, time) => {
+/**
+ * Takes off and keeps flying with an elytra. It finishes once the takeoff is complete,
+ * and then holds the flying pose.
+ */
+export const FlyingAnimation: AnimationFn & { readonly duration: number } = Object.assign((player: PlayerObject, time: number) => {
 	// body rotation finishes in 0.5s
 	// elytra expansion finishes in 3.3s
 
@@ -234,10 +701,269 @@ export const FlyingAnimation: Animation = (player, time) => {
 	player.skin.leftArm.rotation.z = basicArmRotationZ;
 	player.skin.rightArm.rotation.z = -basicArmRotationZ;
 
-	const elytraRotationX = .34906584;
-	const elytraRotationZ = Math.PI / 2;
+	// the wings open by a tenth of the remaining way at each tick, as in the game
 	const interpolation = Math.pow(.9, time);
-	player.elytra.leftWing.rotation.x = elytraRotationX + interpolation * (.2617994 - elytraRotationX);
-	player.elytra.leftWing.rotation.z = elytraRotationZ + interpolation * (.2617994 - elytraRotationZ);
-	player.elytra.updateRightWing();
+	player.elytra.applyWingPose(lerpElytraWingPose(ELYTRA_WING_POSES.closed, ELYTRA_WING_POSES.gliding, 1 - interpolation));
+}, { duration: 3.3 });
+
+// The animations below follow the vanilla player model, where one tick is 1/20 s.
+// Its rotations around y and z have the opposite sign, and are applied around z first, then y, then x.
+
+/**
+ * Sets the rotation of a body part, applied in the same order as in the vanilla model.
+ */
+function setVanillaRotation(object: Object3D, x: number, y: number, z: number): void {
+	const rotation = new Quaternion().setFromEuler(new Euler(x, y, z, "ZYX"));
+	object.rotation.setFromQuaternion(rotation, "XYZ");
+}
+
+/**
+ * The vanilla angles are made for classic arms. A slim arm is 3 pixels wide instead of 4, so its middle is
+ * half a pixel closer to the body. This returns the yaw that brings the hand of a slim arm, pitched by `pitch`,
+ * to the same side position as the hand of a classic arm turned by `yaw`, e.g. onto the string of a bow.
+ */
+function getArmYaw(player: PlayerObject, side: "right" | "left", pitch: number, yaw: number): number {
+	if (player.skin.modelType !== "slim") {
+		return yaw;
+	}
+	const outwards = side === "right" ? -1 : 1;
+	// the hand is 10 pixels below the shoulder, and the pivot of the arm is 1 pixel inside it
+	const forward = -10 * Math.sin(pitch);
+	const classic = outwards * (4 / 2 - 1);
+	const slim = outwards * (3 / 2 - 1);
+	// the side position of the hand is slim * cos(result) + forward * sin(result)
+	const target = classic * Math.cos(yaw) + forward * Math.sin(yaw);
+	const length = Math.hypot(slim, forward);
+	return Math.asin(clamp(target / length, -1, 1)) - Math.atan2(slim, forward);
+}
+
+/**
+ * Swings the arms and legs as when walking. `position` grows with the distance walked,
+ * and `amount` is the speed, from 0 (standing) to 1.
+ */
+function swingLimbs(player: PlayerObject, position: number, amount: number): void {
+	const skin = player.skin;
+	const angle = position * 0.6662;
+	skin.rightArm.rotation.x = Math.cos(angle + Math.PI) * amount;
+	skin.leftArm.rotation.x = Math.cos(angle) * amount;
+	skin.rightLeg.rotation.x = Math.cos(angle) * 1.4 * amount;
+	skin.leftLeg.rotation.x = Math.cos(angle + Math.PI) * 1.4 * amount;
+}
+
+/**
+ * Adds the slight motion of the arms that goes on all the time, as if breathing.
+ */
+function bobArms(player: PlayerObject, ticks: number): void {
+	const skin = player.skin;
+	const z = Math.cos(ticks * 0.09) * 0.05 + 0.05;
+	const x = Math.sin(ticks * 0.067) * 0.05;
+	skin.rightArm.rotation.z -= z;
+	skin.leftArm.rotation.z += z;
+	skin.rightArm.rotation.x += x;
+	skin.leftArm.rotation.x -= x;
+}
+
+function playCrouching(player: PlayerObject, time: number, speed: number): void {
+	const skin = player.skin;
+	const ticks = time * 20;
+	applyPose(player, POSES.crouch);
+	swingLimbs(player, ticks * speed, speed);
+	skin.rightArm.rotation.x += 0.4;
+	skin.leftArm.rotation.x += 0.4;
+	bobArms(player, ticks);
+	if (player.elytra.state !== "crouching") {
+		player.elytra.setState("crouching");
+	}
+}
+
+function stopCrouching(player: PlayerObject): void {
+	if (player.elytra.state === "crouching") {
+		player.elytra.setState("closed");
+	}
+}
+
+/**
+ * Crouches without moving. The elytra moves to the "crouching" state, and back to "closed" once the animation
+ * is removed.
+ */
+export const CrouchingAnimation: AnimationFn & { stop(player: PlayerObject): void } = Object.assign((player: PlayerObject, time: number) => {
+	playCrouching(player, time, 0);
+}, { stop: stopCrouching });
+
+/**
+ * Walks while crouching. The elytra moves as with `CrouchingAnimation`.
+ */
+export const SneakingAnimation: AnimationFn & { stop(player: PlayerObject): void } = Object.assign((player: PlayerObject, time: number) => {
+	// sneaking covers about a quarter of a block per tick, in the units of the limb swing
+	playCrouching(player, time, 0.26);
+}, { stop: stopCrouching });
+
+// the arm stroke of the vanilla model eases in by this function
+function getStrokeProgress(ticks: number): number {
+	return (-65 * ticks + ticks * ticks) / (-65 * 14 + 14 * 14);
+}
+
+/**
+ * Swims face down, with the arms stroking over the head and the legs kicking.
+ */
+export const SwimmingAnimation: Animation = (player, time) => {
+	const skin = player.skin;
+	const ticks = Math.max(time, 0) * 20;
+
+	player.rotation.x = Math.PI / 2;
+	skin.head.rotation.x = -Math.PI / 4;
+
+	// a stroke takes 26 ticks: the arms sweep to the sides, come along the body, then go back forward
+	const stroke = ticks % 26;
+	let armX: number;
+	let rightArmZ: number;
+	if (stroke < 14) {
+		armX = 0;
+		rightArmZ = Math.PI - 1.8707964 * getStrokeProgress(stroke);
+	} else if (stroke < 22) {
+		const t = (stroke - 14) / 8;
+		armX = Math.PI / 2 * t;
+		rightArmZ = 1.2707963 + 1.8707964 * t;
+	} else {
+		const t = (stroke - 22) / 4;
+		armX = Math.PI / 2 - Math.PI / 2 * t;
+		rightArmZ = Math.PI;
+	}
+	setVanillaRotation(skin.rightArm, armX, Math.PI, -rightArmZ);
+	setVanillaRotation(skin.leftArm, armX, Math.PI, rightArmZ);
+
+	skin.rightLeg.rotation.x = 0.3 * Math.cos(ticks / 3);
+	skin.leftLeg.rotation.x = 0.3 * Math.cos(ticks / 3 + Math.PI);
+};
+
+/**
+ * Sits on the ground, as when riding.
+ */
+export const SittingAnimation: Animation = (player, time) => {
+	const skin = player.skin;
+	applyPose(player, POSES.sit);
+	skin.rightArm.rotation.set(-Math.PI / 5, 0, 0);
+	skin.leftArm.rotation.set(-Math.PI / 5, 0, 0);
+	bobArms(player, time * 20);
+	// the knees point slightly outwards
+	setVanillaRotation(skin.rightLeg, -1.4137167, -Math.PI / 10, -0.07853982);
+	setVanillaRotation(skin.leftLeg, -1.4137167, Math.PI / 10, 0.07853982);
+};
+
+const JUMP_TICKS = 12;
+
+/**
+ * Returns the height (in blocks) and the vertical speed (in blocks per tick) of a jump,
+ * with the gravity and the air drag of the game.
+ */
+function getJump(ticks: number): { height: number; velocity: number } {
+	let height = 0;
+	let velocity = 0.42;
+	for (let i = 0; i < Math.floor(ticks); i++) {
+		height += velocity;
+		velocity = (velocity - 0.08) * 0.98;
+	}
+	height += velocity * (ticks - Math.floor(ticks));
+	return { height: Math.max(height, 0), velocity };
+}
+
+/**
+ * Jumps in place, over and over. Each jump is a loop of the animation.
+ */
+export const JumpingAnimation: AnimationFn & { readonly duration: number; readonly loop: boolean } = Object.assign((player: PlayerObject, time: number) => {
+	const ticks = Math.max(time, 0) * 20 % JUMP_TICKS;
+	const { height, velocity } = getJump(ticks);
+
+	// a player is 2 blocks tall
+	player.position.y = height * 16;
+	player.skin.rightArm.rotation.set(0, 0, 0);
+	player.skin.leftArm.rotation.set(0, 0, 0);
+	bobArms(player, time * 20);
+
+	// the cape trails behind: it stays on the back when going up, and lifts when falling
+	const capeLift = clamp(-velocity * 30, -6, 32);
+	player.cape.rotation.x = (10.8 + capeLift) * Math.PI / 180;
+}, { duration: JUMP_TICKS / 20, loop: true });
+
+/**
+ * Waves the right hand over the head.
+ */
+export const WavingAnimation: Animation = (player, time) => {
+	const skin = player.skin;
+	skin.rightArm.rotation.set(0, 0, -2.6 + Math.sin(time * 10) * 0.35);
+	skin.leftArm.rotation.set(0, 0, 0);
+	bobArms(player, time * 20);
+};
+
+/**
+ * Swings the right arm once, as when attacking or punching, with the head level. It finishes after 6 ticks.
+ */
+export const AttackingAnimation: AnimationFn & { readonly duration: number } = Object.assign((player: PlayerObject, time: number) => {
+	const skin = player.skin;
+	const progress = clamp(time / 0.3, 0, 1);
+
+	// the body turns toward the swing, and the shoulders turn with it
+	const bodyYaw = -Math.sin(Math.sqrt(progress) * Math.PI * 2) * 0.2;
+	skin.body.rotation.y = bodyYaw;
+	skin.rightArm.position.set(-Math.cos(bodyYaw) * 5, -2, Math.sin(bodyYaw) * 5);
+	skin.leftArm.position.set(Math.cos(bodyYaw) * 5, -2, -Math.sin(bodyYaw) * 5);
+
+	const swing = Math.sin((1 - Math.pow(1 - progress, 4)) * Math.PI);
+	// the vanilla model also follows the pitch of the head, which is level here
+	const lift = Math.sin(progress * Math.PI) * 0.7 * 0.75;
+	setVanillaRotation(skin.rightArm, -(swing * 1.2 + lift), bodyYaw * 3, Math.sin(progress * Math.PI) * 0.4);
+	setVanillaRotation(skin.leftArm, -bodyYaw, bodyYaw, 0);
+}, { duration: 0.3 });
+
+/**
+ * Holds a bow drawn with the right hand, and aims straight ahead.
+ */
+export const BowAimingAnimation: Animation = (player, time) => {
+	const skin = player.skin;
+	// the vanilla model aims where the head looks, which is straight ahead in the standing pose
+	const pitch = -Math.PI / 2;
+	setVanillaRotation(skin.rightArm, pitch, getArmYaw(player, "right", pitch, 0.1), 0);
+	setVanillaRotation(skin.leftArm, pitch, getArmYaw(player, "left", pitch, -0.5), 0);
+	bobArms(player, time * 20);
 };
+
+/**
+ * Blocks with a shield held in the left hand, which is the off hand.
+ */
+export const ShieldBlockingAnimation: Animation = (player, time) => {
+	const skin = player.skin;
+	skin.rightArm.rotation.set(0, 0, 0);
+	setVanillaRotation(skin.leftArm, -0.9424779, getArmYaw(player, "left", -0.9424779, -Math.PI / 6), 0);
+	bobArms(player, time * 20);
+};
+
+/**
+ * Lies on the back, on top of a bed.
+ */
+export const SleepingAnimation: Animation = (player, time) => {
+	const skin = player.skin;
+	player.rotation.set(-Math.PI / 2, 0, 0);
+	// the top of a bed is 9 pixels above the floor, which is at the feet of the standing player
+	player.position.set(0, -16 + 9 + 2, 0);
+	skin.head.rotation.set(0, 0, 0);
+	skin.rightArm.rotation.set(0, 0, 0);
+	skin.leftArm.rotation.set(0, 0, 0);
+	bobArms(player, time * 20);
+	skin.rightLeg.rotation.set(0, 0, 0);
+	skin.leftLeg.rotation.set(0, 0, 0);
+	// the cape lies flat under the body
+	player.cape.rotation.set(0, Math.PI, 0);
+};
+
+/**
+ * Falls over to the side, as when dying, then stays on the ground. It finishes after 20 ticks.
+ */
+export const DyingAnimation: AnimationFn & { readonly duration: number } = Object.assign((player: PlayerObject, time: number) => {
+	const ticks = Math.max(time, 0) * 20;
+	const progress = Math.min(Math.sqrt(Math.max(ticks - 1, 0) / 20 * 1.6), 1);
+	const angle = -progress * Math.PI / 2;
+
+	// the player turns around its feet
+	player.rotation.set(0, 0, angle);
+	player.position.set(-16 * Math.sin(angle), -16 + 16 * Math.cos(angle), 0);
+}, { duration: 1 });
@@ -0,0 +1,174 @@
+import { Euler, Object3D, Texture, Vector3, Vector3Tuple } from "three";
+import { Animation, IAnimation, invokeAnimation } from "./animation.js";
+import { PlayerObject } from "./model.js";
+import { BoneTransform, capturePose, getPoseBones, Pose, PoseBoneName, POSE_BONE_NAMES } from "./pose.js";
+
+function getTransform(pose: Pose, name: PoseBoneName): Required<BoneTransform> {
+	return pose[name] as Required<BoneTransform>;
+}
+
+/**
+ * Returns the bone on the other side, e.g. "rightArm" for "leftArm", or the bone itself if it is in the middle.
+ */
+export function getMirroredBoneName(name: PoseBoneName): PoseBoneName {
+	if (name.startsWith("left")) {
+		return "right" + name.substring(4) as PoseBoneName;
+	}
+	if (name.startsWith("right")) {
+		return "left" + name.substring(5) as PoseBoneName;
+	}
+	return name;
+}
+
+const AXES: ReadonlyArray<"x" | "y" | "z"> = ["x", "y", "z"];
+
+// mirroring across the YZ plane negates x, and rotations around y and z
+const POSITION_SIGNS: Vector3Tuple = [-1, 1, 1];
+const ROTATION_SIGNS: Vector3Tuple = [1, -1, -1];
+
+function mirrorValues(before: Vector3Tuple, sourceBefore: Vector3Tuple, sourceAfter: Vector3Tuple, signs: Vector3Tuple): Vector3Tuple {
+	// values that the animation did not set on the other side are left as they were
+	return [0, 1, 2].map(i => sourceAfter[i] !== sourceBefore[i] ? sourceAfter[i] * signs[i] : before[i]) as Vector3Tuple;
+}
+
+/**
+ * Plays an animation mirrored left to right, e.g. waving with the left hand instead of the right one.
+ *
+ * Whatever the animation does to a bone is done to the bone on the other side (see `getMirroredBoneName`),
+ * with the x positions and the rotations around y and z negated. Bones in the middle are mirrored in place.
+ * Values that the animation does not touch are left as they are, so other animations are not affected.
+ * `duration`, `loop`, `layer` and `stop` are those of the animation.
+ */
+export class MirroredAnimation implements IAnimation {
+
+	constructor(readonly animation: Animation) { }
+
+	get duration(): number | undefined {
+		return (this.animation as IAnimation).duration;
+	}
+
+	get loop(): boolean | undefined {
+		return (this.animation as IAnimation).loop;
+	}
+
+	get layer(): boolean | undefined {
+		return (this.animation as IAnimation).layer;
+	}
+
+	stop(player: PlayerObject): void {
+		const stop = (this.animation as IAnimation).stop;
+		if (stop instanceof Function) {
+			stop.call(this.animation, player);
+		}
+	}
+
+	play(player: PlayerObject, time: number): void {
+		const before = capturePose(player);
+		invokeAnimation(this.animation, player, time);
+		const after = capturePose(player);
+
+		const bones = getPoseBones(player);
+		POSE_BONE_NAMES.forEach(name => {
+			const source = getMirroredBoneName(name);
+			const position = mirrorValues(
+				getTransform(before, name).position,
+				getTransform(before, source).position,
+				getTransform(after, source).position,
+				POSITION_SIGNS
+			);
+			const rotation = mirrorValues(
+				getTransform(before, name).rotation,
+				getTransform(before, source).rotation,
+				getTransform(after, source).rotation,
+				ROTATION_SIGNS
+			);
+			// only the values that change are set, so that a composite animation does not take the others as set
+			const current = getTransform(after, name);
+			const bone = bones[name];
+			AXES.forEach((axis, i) => {
+				if (position[i] !== current.position[i]) {
+					bone.position[axis] = position[i];
+				}
+				if (rotation[i] !== current.rotation[i]) {
+					bone.rotation[axis] = rotation[i];
+				}
+			});
+		});
+	}
+}
+
+interface RetargetedBone {
+	readonly name: PoseBoneName;
+	readonly bone: Object3D;
+	readonly position: Vector3;
+	readonly rotation: Euler;
+}
+
+/**
+ * Plays an animation made for the player on the bones of another model,
+ * such as a custom Bedrock Edition skeleton loaded as an accessory.
+ *
+ * The animation is played on a hidden player in the standing pose, and the changes it makes to each bone
+ * are added to the rest pose of the matching bone of `target`. The rest pose is recorded when this object is created.
+ *
+ * Bones are looked up by name in `target`. By default, they have the same names as the body parts
+ * of SkinObject (head, body, rightArm, leftArm, rightLeg, leftLeg), which are also the names used by
+ * Bedrock Edition player geometries. Other names can be given with `boneNames`:
+ * ```
+ * const accessory = skinViewer.getAccessory("robot");
+ * skinViewer.animations.add(new RetargetedAnimation(WalkingAnimation, accessory.model, { rightArm: "arm_r", leftArm: "arm_l" }));
+ * ```
+ * The player itself is moved only if `boneNames.root` is given.
+ */
+export class RetargetedAnimation implements IAnimation {
+
+	private readonly source: PlayerObject = new PlayerObject(new Texture(), new Texture(), new Texture());
+	private readonly restPose: Pose;
+	private readonly bones: Array<RetargetedBone> = [];
+
+	constructor(readonly animation: Animation, target: Object3D, boneNames: Partial<Record<PoseBoneName, string>> = {}) {
+		this.restPose = capturePose(this.source);
+		POSE_BONE_NAMES.forEach(name => {
+			const boneName = boneNames[name] !== undefined ? boneNames[name] : name === "root" ? undefined : name;
+			let bone: Object3D | undefined;
+			target.traverse(it => {
+				// cubes may have the same name as bones
+				if (bone === undefined && it.name === boneName && it.type !== "Mesh") {
+					bone = it;
+				}
+			});
+			if (bone !== undefined) {
+				this.bones.push({ name, bone, position: bone.position.clone(), rotation: bone.rotation.clone() });
+			}
+		});
+	}
+
+	get duration(): number | undefined {
+		return (this.animation as IAnimation).duration;
+	}
+
+	get loop(): boolean | undefined {
+		return (this.animation as IAnimation).loop;
+	}
+
+	play(player: PlayerObject, time: number): void {
+		this.source.resetPose();
+		invokeAnimation(this.animation, this.source, time);
+		const pose = capturePose(this.source);
+
+		this.bones.forEach(({ name, bone, position, rotation }) => {
+			const rest = getTransform(this.restPose, name);
+			const current = getTransform(pose, name);
+			bone.position.set(
+				position.x + current.position[0] - rest.position[0],
+				position.y + current.position[1] - rest.position[1],
+				position.z + current.position[2] - rest.position[2]
+			);
+			bone.rotation.set(
+				rotation.x + current.rotation[0] - rest.rotation[0],
+				rotation.y + current.rotation[1] - rest.rotation[1],
+				rotation.z + current.rotation[2] - rest.rotation[2]
+			);
+		});
+	}
+}
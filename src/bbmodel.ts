@@ -0,0 +1,461 @@
+import { loadImage } from "skinview-utils";
+import { DoubleSide, Euler, Group, Material, Mesh, MeshStandardMaterial, NearestFilter, Object3D, Texture } from "three";
+import { createJavaElementGeometry, JavaModelElement, JavaModelFace, JavaModelFaceName, JavaModelTextures, Vec3, Vec4 } from "./java_model.js";
+import { ModelValidationError, ModelValidationIssue, ModelValidator } from "./validation.js";
+
+export interface BlockbenchFace {
+	/**
+	 * [u1, v1, u2, v2], in the units of `BlockbenchModel.resolution`.
+	 */
+	uv: Vec4;
+
+	/**
+	 * Rotation of the texture, in degrees.
+	 */
+	rotation?: number;
+
+	/**
+	 * The index or uuid of the texture in `BlockbenchModel.textures`.
+	 * The face is not rendered if it is null.
+	 */
+	texture?: number | string | null;
+}
+
+export interface BlockbenchCube {
+	type?: "cube";
+	name: string;
+	uuid: string;
+	from: Vec3;
+	to: Vec3;
+
+	/**
+	 * The pivot of the cube, in model coordinates.
+	 */
+	origin?: Vec3;
+
+	/**
+	 * In degrees.
+	 */
+	rotation?: Vec3;
+	inflate?: number;
+	visibility?: boolean;
+	faces: Partial<Record<JavaModelFaceName, BlockbenchFace>>;
+}
+
+export interface BlockbenchGroup {
+	name: string;
+	uuid: string;
+
+	/**
+	 * The pivot of the bone, in model coordinates.
+	 */
+	origin: Vec3;
+
+	/**
+	 * In degrees.
+	 */
+	rotation?: Vec3;
+	visibility?: boolean;
+
+	/**
+	 * Child bones, or uuids of cubes.
+	 */
+	children: Array<BlockbenchOutlinerNode>;
+}
+
+export type BlockbenchOutlinerNode = BlockbenchGroup | string;
+
+export interface BlockbenchTexture {
+	name: string;
+	uuid?: string;
+
+	/**
+	 * The image, usually a "data:image/png;base64,..." URL.
+	 */
+	source?: string;
+}
+
+/**
+ * A Blockbench project (.bbmodel).
+ */
+export interface BlockbenchModel {
+	meta: {
+		format_version: string;
+
+		/**
+		 * "java_block", "bedrock", "modded_entity", "free", ...
+		 */
+		model_format: string;
+		box_uv?: boolean;
+	};
+	name?: string;
+
+	/**
+	 * The size of the UV space. Default is 16x16.
+	 */
+	resolution?: {
+		width: number;
+		height: number;
+	};
+	elements: Array<BlockbenchCube | { type: string }>;
+	outliner: Array<BlockbenchOutlinerNode>;
+	textures?: Array<BlockbenchTexture>;
+
+	/**
+	 * See `parseBlockbenchAnimations`.
+	 */
+	animations?: Array<BlockbenchAnimationData>;
+}
+
+export type BlockbenchInterpolation = "linear" | "catmullrom" | "step" | "bezier";
+
+export interface BlockbenchKeyframeData {
+	channel: string;
+	time: number;
+	interpolation?: BlockbenchInterpolation;
+
+	/**
+	 * One data point, or two (the value before and after the keyframe).
+	 * Components are numbers or numeric strings.
+	 */
+	data_points: Array<{ x: number | string, y: number | string, z: number | string }>;
+}
+
+export interface BlockbenchAnimationData {
+	name: string;
+	loop?: "once" | "loop" | "hold";
+
+	/**
+	 * In seconds.
+	 */
+	length: number;
+
+	/**
+	 * Keyed by the uuid of the bone.
+	 */
+	animators?: Record<string, {
+		name: string;
+		type?: string;
+		keyframes: Array<BlockbenchKeyframeData>;
+	}>;
+}
+
+export function isBlockbenchModel(json: unknown): json is BlockbenchModel {
+	return typeof json === "object" && json !== null &&
+		typeof (json as Partial<BlockbenchModel>).meta === "object" &&
+		Array.isArray((json as Partial<BlockbenchModel>).outliner);
+}
+
+function isCube(element: BlockbenchCube | { type: string }): element is BlockbenchCube {
+	return element.type === undefined || element.type === "cube";
+}
+
+function validateGroup(validator: ModelValidator, group: unknown, path: string): void {
+	const child = ModelValidator.child;
+	if (typeof group === "string") {
+		return;
+	}
+	if (!validator.isObject(group, path)) {
+		return;
+	}
+	validator.isString(group.name, child(path, "name"));
+	validator.isVector(group.origin, 3, child(path, "origin"));
+	if (group.rotation !== undefined) {
+		validator.isVector(group.rotation, 3, child(path, "rotation"));
+	}
+	if (validator.isArray(group.children, child(path, "children"))) {
+		group.children.forEach((it, i) => validateGroup(validator, it, child(child(path, "children"), i)));
+	}
+}
+
+function validateCube(validator: ModelValidator, cube: Record<string, unknown>, path: string): void {
+	const child = ModelValidator.child;
+	validator.isString(cube.uuid, child(path, "uuid"));
+	validator.isVector(cube.from, 3, child(path, "from"));
+	validator.isVector(cube.to, 3, child(path, "to"));
+	if (cube.origin !== undefined) {
+		validator.isVector(cube.origin, 3, child(path, "origin"));
+	}
+	if (cube.rotation !== undefined) {
+		validator.isVector(cube.rotation, 3, child(path, "rotation"));
+	}
+	if (cube.inflate !== undefined) {
+		validator.isNumber(cube.inflate, child(path, "inflate"));
+	}
+
+	const faces = cube.faces;
+	const facesPath = child(path, "faces");
+	if (!validator.isObject(faces, facesPath)) {
+		return;
+	}
+	Object.keys(faces).forEach(name => {
+		const face = faces[name];
+		const facePath = child(facesPath, name);
+		if (!validator.isObject(face, facePath)) {
+			return;
+		}
+		validator.isVector(face.uv, 4, child(facePath, "uv"));
+		if (face.rotation !== undefined) {
+			validator.isOneOf(face.rotation, [0, 90, 180, 270], child(facePath, "rotation"));
+		}
+		const texture = face.texture;
+		if (texture !== undefined && texture !== null && typeof texture !== "number" && typeof texture !== "string") {
+			validator.report(child(facePath, "texture"), "must be a texture index, a uuid or null");
+		}
+	});
+}
+
+/**
+ * Checks the structure of a Blockbench project.
+ * @returns every problem found, or an empty array if the project is valid
+ */
+export function validateBlockbenchModel(json: unknown): Array<ModelValidationIssue> {
+	const validator = new ModelValidator();
+	const child = ModelValidator.child;
+	if (!validator.isObject(json, "")) {
+		return validator.issues;
+	}
+
+	if (validator.isObject(json.meta, "meta")) {
+		validator.isString(json.meta.model_format, "meta.model_format");
+	}
+
+	const resolution = json.resolution;
+	if (resolution !== undefined && validator.isObject(resolution, "resolution")) {
+		(["width", "height"] as const).forEach(key => {
+			if (validator.isNumber(resolution[key], child("resolution", key)) && (resolution[key] as number) <= 0) {
+				validator.report(child("resolution", key), "must be positive");
+			}
+		});
+	}
+
+	if (validator.isArray(json.elements, "elements")) {
+		json.elements.forEach((element, i) => {
+			const path = child("elements", i);
+			if (validator.isObject(element, path) && (element.type === undefined || element.type === "cube")) {
+				validateCube(validator, element, path);
+			}
+		});
+	}
+
+	if (validator.isArray(json.outliner, "outliner")) {
+		json.outliner.forEach((node, i) => validateGroup(validator, node, child("outliner", i)));
+	}
+
+	const textures = json.textures;
+	if (textures !== undefined && validator.isArray(textures, "textures")) {
+		textures.forEach((texture, i) => {
+			const path = child("textures", i);
+			if (validator.isObject(texture, path) && texture.source !== undefined) {
+				validator.isString(texture.source, child(path, "source"));
+			}
+		});
+	}
+
+	return validator.issues;
+}
+
+/**
+ * @throws ModelValidationError if the project is malformed
+ */
+export function assertValidBlockbenchModel(json: unknown): asserts json is BlockbenchModel {
+	const issues = validateBlockbenchModel(json);
+	if (issues.length > 0) {
+		throw new ModelValidationError(issues);
+	}
+}
+
+/**
+ * Decodes an image given as a data URI, with Image where there is a DOM,
+ * or with createImageBitmap otherwise, e.g. in Web Workers.
+ */
+function decodeDataURI(uri: string): Promise<HTMLImageElement | ImageBitmap> {
+	if (typeof Image !== "undefined") {
+		return loadImage(uri);
+	}
+	if (typeof createImageBitmap !== "undefined" && typeof fetch !== "undefined") {
+		return fetch(uri)
+			.then(response => response.blob())
+			// three.js cannot flip bitmaps when uploading them, unlike images
+			.then(blob => createImageBitmap(blob, { imageOrientation: "flipY" }));
+	}
+	return Promise.reject(new Error("Embedded textures can only be decoded where there is Image or createImageBitmap"));
+}
+
+/**
+ * Loads the textures embedded in a Blockbench project.
+ * Each texture can be looked up by its index (as a string), uuid or name.
+ * Textures that are not embedded are skipped.
+ *
+ * The images are decoded by the browser, so this works in pages and in Web Workers,
+ * but not in Node, where the promise rejects.
+ */
+export async function loadBlockbenchTextures(model: BlockbenchModel): Promise<JavaModelTextures> {
+	const result: Record<string, Texture> = {};
+	await Promise.all((model.textures || []).map(async (it, index) => {
+		if (it.source === undefined || !it.source.startsWith("data:")) {
+			return;
+		}
+		const texture = new Texture();
+		texture.image = await decodeDataURI(it.source);
+		texture.magFilter = NearestFilter;
+		texture.minFilter = NearestFilter;
+		texture.needsUpdate = true;
+
+		result[String(index)] = texture;
+		if (it.uuid !== undefined) {
+			result[it.uuid] = texture;
+		}
+		result[it.name] = texture;
+	}));
+	return result;
+}
+
+function findTexture(model: BlockbenchModel, textures: Texture | JavaModelTextures, reference: number | string): Texture | null {
+	if (textures instanceof Texture) {
+		return textures;
+	}
+	const keys = [String(reference)];
+	const info = typeof reference === "number" ?
+		model.textures?.[reference] :
+		model.textures?.find(it => it.uuid === reference);
+	if (info !== undefined) {
+		keys.push(info.name);
+	}
+	for (const key of keys) {
+		if (textures[key] !== undefined) {
+			return textures[key];
+		}
+	}
+	return null;
+}
+
+function toEuler(rotation: Vec3 | undefined): Euler {
+	if (rotation === undefined) {
+		return new Euler();
+	}
+	// Blockbench applies rotations in ZYX order
+	return new Euler(
+		rotation[0] * Math.PI / 180,
+		rotation[1] * Math.PI / 180,
+		rotation[2] * Math.PI / 180,
+		"ZYX"
+	);
+}
+
+const FACE_NAMES: ReadonlyArray<JavaModelFaceName> = ["east", "west", "up", "down", "south", "north"];
+
+/**
+ * Builds the hierarchy of a Blockbench project.
+ *
+ * Each bone of the outliner becomes a Group named after the bone, whose position is its pivot,
+ * so that rotating the group rotates the bone around its pivot.
+ * Cubes that are not in any bone are added to the root.
+ *
+ * The result uses the coordinate system of Java block models:
+ * entity models (centered on the origin) are moved to the center of the block.
+ */
+export function createBlockbenchModel(model: BlockbenchModel, textures: Texture | JavaModelTextures): Group {
+	const uvSize: [number, number] = model.resolution === undefined ? [16, 16] : [model.resolution.width, model.resolution.height];
+	const materials: Map<Texture, Material> = new Map();
+	const getMaterial = (texture: Texture) => {
+		let material = materials.get(texture);
+		if (material === undefined) {
+			material = new MeshStandardMaterial({
+				map: texture,
+				side: DoubleSide,
+				transparent: true,
+				alphaTest: 1e-5
+			});
+			materials.set(texture, material);
+		}
+		return material;
+	};
+
+	const cubes: Map<string, BlockbenchCube> = new Map();
+	model.elements.forEach(element => {
+		if (isCube(element)) {
+			cubes.set(element.uuid, element);
+		}
+	});
+	const usedCubes: Set<string> = new Set();
+
+	const createCube = (cube: BlockbenchCube, parentOrigin: Vec3): Mesh | null => {
+		const inflate = cube.inflate || 0;
+		const faces: Partial<Record<JavaModelFaceName, JavaModelFace>> = {};
+		const faceNames: Array<JavaModelFaceName> = [];
+		const faceMaterials: Array<Material> = [];
+		FACE_NAMES.forEach(name => {
+			const face = cube.faces[name];
+			if (face === undefined || face.texture === undefined || face.texture === null) {
+				return;
+			}
+			const texture = findTexture(model, textures, face.texture);
+			if (texture === null) {
+				return;
+			}
+			faces[name] = { uv: face.uv, rotation: face.rotation, texture: String(face.texture) };
+			faceNames.push(name);
+			faceMaterials.push(getMaterial(texture));
+		});
+		if (faceNames.length === 0) {
+			return null;
+		}
+
+		const origin = cube.origin || [0, 0, 0];
+		const element: JavaModelElement = {
+			from: [cube.from[0] - inflate, cube.from[1] - inflate, cube.from[2] - inflate],
+			to: [cube.to[0] + inflate, cube.to[1] + inflate, cube.to[2] + inflate],
+			faces
+		};
+		const geometry = createJavaElementGeometry(element, faceNames, { uvSize });
+		geometry.translate(-origin[0], -origin[1], -origin[2]);
+
+		const mesh = new Mesh(geometry, faceMaterials);
+		mesh.name = cube.name;
+		mesh.position.set(origin[0] - parentOrigin[0], origin[1] - parentOrigin[1], origin[2] - parentOrigin[2]);
+		mesh.rotation.copy(toEuler(cube.rotation));
+		mesh.visible = cube.visibility !== false;
+		return mesh;
+	};
+
+	const addChildren = (parent: Object3D, nodes: Array<BlockbenchOutlinerNode>, parentOrigin: Vec3) => {
+		nodes.forEach(node => {
+			if (typeof node === "string") {
+				const cube = cubes.get(node);
+				if (cube !== undefined) {
+					usedCubes.add(node);
+					const mesh = createCube(cube, parentOrigin);
+					if (mesh !== null) {
+						parent.add(mesh);
+					}
+				}
+			} else {
+				const bone = new Group();
+				bone.name = node.name;
+				bone.position.set(node.origin[0] - parentOrigin[0], node.origin[1] - parentOrigin[1], node.origin[2] - parentOrigin[2]);
+				bone.rotation.copy(toEuler(node.rotation));
+				bone.visible = node.visibility !== false;
+				addChildren(bone, node.children, node.origin);
+				parent.add(bone);
+			}
+		});
+	};
+
+	const root = new Group();
+	root.name = model.name || "";
+	addChildren(root, model.outliner, [0, 0, 0]);
+	cubes.forEach((cube, uuid) => {
+		if (!usedCubes.has(uuid)) {
+			const mesh = createCube(cube, [0, 0, 0]);
+			if (mesh !== null) {
+				root.add(mesh);
+			}
+		}
+	});
+
+	if (model.meta.model_format !== "java_block") {
+		root.position.set(8, 0, 8);
+	}
+	return root;
+}
@@ -0,0 +1,341 @@
+import { Euler, Object3D, Vector3 } from "three";
+import { IAnimation } from "./animation.js";
+import { BlockbenchAnimationData, BlockbenchInterpolation, BlockbenchModel } from "./bbmodel.js";
+import { fromBedrockPosition, fromBedrockRotation, isBedrockBone } from "./bedrock_model.js";
+import { Vec3 } from "./java_model.js";
+import { PlayerObject } from "./model.js";
+
+export type BoneChannel = "rotation" | "position" | "scale";
+
+export interface BoneKeyframe {
+	/**
+	 * In seconds.
+	 */
+	time: number;
+
+	/**
+	 * The value when approaching the keyframe.
+	 */
+	pre: Vec3;
+
+	/**
+	 * The value when leaving the keyframe. Usually the same as `pre`.
+	 */
+	post: Vec3;
+	interpolation: BlockbenchInterpolation;
+}
+
+/**
+ * A keyframed animation of a custom model, imported from Blockbench or Bedrock Edition.
+ *
+ * Values are offsets from the rest pose of the bones: rotations are in degrees, positions are in model units,
+ * and scales are multipliers. The axes are those of Blockbench's animation editor, except on bones built from
+ * Bedrock Edition geometry (see `isBedrockBone`), where they are those of Bedrock Edition,
+ * as in its animation files.
+ */
+export interface BoneAnimationClip {
+	name: string;
+
+	/**
+	 * "once": the bones go back to their rest pose at the end.
+	 * "loop": the animation restarts at the end.
+	 * "hold": the bones stay at the last frame.
+	 */
+	loop: "once" | "loop" | "hold";
+
+	/**
+	 * In seconds.
+	 */
+	length: number;
+
+	/**
+	 * Tracks of each bone, keyed by the name of the bone. Keyframes are sorted by time.
+	 */
+	bones: Record<string, Partial<Record<BoneChannel, Array<BoneKeyframe>>>>;
+}
+
+function toNumber(value: number | string | undefined): number {
+	if (typeof value === "number") {
+		return value;
+	}
+	if (value === undefined) {
+		return 0;
+	}
+	// Molang expressions are not supported, so they are treated as 0
+	const result = parseFloat(value);
+	return isFinite(result) ? result : 0;
+}
+
+function isChannel(value: string): value is BoneChannel {
+	return value === "rotation" || value === "position" || value === "scale";
+}
+
+function sortKeyframes(bones: BoneAnimationClip["bones"]): void {
+	Object.values(bones).forEach(channels =>
+		Object.values(channels).forEach(keyframes =>
+			(keyframes as Array<BoneKeyframe>).sort((a, b) => a.time - b.time)));
+}
+
+function parseBlockbenchAnimation(data: BlockbenchAnimationData): BoneAnimationClip {
+	const bones: BoneAnimationClip["bones"] = {};
+	Object.values(data.animators || {}).forEach(animator => {
+		if (animator.type !== undefined && animator.type !== "bone") {
+			return;
+		}
+		const channels = bones[animator.name] || (bones[animator.name] = {});
+		animator.keyframes.forEach(keyframe => {
+			if (!isChannel(keyframe.channel) || keyframe.data_points.length === 0) {
+				return;
+			}
+			const points: Array<Vec3> = keyframe.data_points.map(point => [toNumber(point.x), toNumber(point.y), toNumber(point.z)]);
+			const keyframes = channels[keyframe.channel] || (channels[keyframe.channel] = []);
+			keyframes.push({
+				time: keyframe.time,
+				pre: points[0],
+				post: points[points.length - 1],
+				interpolation: keyframe.interpolation || "linear"
+			});
+		});
+	});
+	sortKeyframes(bones);
+	return {
+		name: data.name,
+		loop: data.loop || "once",
+		length: data.length,
+		bones
+	};
+}
+
+/**
+ * Reads the animations of a Blockbench project.
+ */
+export function parseBlockbenchAnimations(model: BlockbenchModel): Array<BoneAnimationClip> {
+	return (model.animations || []).map(parseBlockbenchAnimation);
+}
+
+type BedrockValue = number | string | Array<number | string>;
+
+type BedrockKeyframe = BedrockValue | {
+	pre?: BedrockValue;
+	post?: BedrockValue;
+	lerp_mode?: "linear" | "catmullrom";
+};
+
+type BedrockChannel = BedrockValue | Record<string, BedrockKeyframe>;
+
+/**
+ * A Bedrock Edition animation file (*.animation.json).
+ */
+export interface BedrockAnimationFile {
+	format_version: string;
+	animations: Record<string, {
+		loop?: boolean | "hold_on_last_frame";
+		animation_length?: number;
+		bones?: Record<string, Partial<Record<BoneChannel, BedrockChannel>>>;
+	}>;
+}
+
+function parseBedrockValue(value: BedrockValue): Vec3 {
+	if (Array.isArray(value)) {
+		return [toNumber(value[0]), toNumber(value[1]), toNumber(value[2])];
+	}
+	// a single value applies to all axes
+	const it = toNumber(value);
+	return [it, it, it];
+}
+
+function isBedrockValue(value: unknown): value is BedrockValue {
+	return typeof value === "number" || typeof value === "string" || Array.isArray(value);
+}
+
+/**
+ * Reads the animations of a Bedrock Edition animation file.
+ * The names of the clips are the keys in `animations`, e.g. "animation.pet.wag".
+ */
+export function parseBedrockAnimations(file: BedrockAnimationFile): Array<BoneAnimationClip> {
+	return Object.keys(file.animations).map(name => {
+		const animation = file.animations[name];
+		const bones: BoneAnimationClip["bones"] = {};
+		let length = 0;
+
+		Object.keys(animation.bones || {}).forEach(boneName => {
+			const channelsData = (animation.bones as NonNullable<typeof animation.bones>)[boneName];
+			const channels: Partial<Record<BoneChannel, Array<BoneKeyframe>>> = {};
+			Object.keys(channelsData).forEach(channel => {
+				const data = channelsData[channel as BoneChannel];
+				if (!isChannel(channel) || data === undefined) {
+					return;
+				}
+				if (isBedrockValue(data)) {
+					const value = parseBedrockValue(data);
+					channels[channel] = [{ time: 0, pre: value, post: value, interpolation: "linear" }];
+					return;
+				}
+				channels[channel] = Object.keys(data).map(timeKey => {
+					const time = parseFloat(timeKey);
+					length = Math.max(length, time);
+					const keyframe = data[timeKey];
+					if (isBedrockValue(keyframe)) {
+						const value = parseBedrockValue(keyframe);
+						return { time, pre: value, post: value, interpolation: "linear" };
+					}
+					const pre = keyframe.pre === undefined ? keyframe.post : keyframe.pre;
+					const post = keyframe.post === undefined ? keyframe.pre : keyframe.post;
+					return {
+						time,
+						pre: parseBedrockValue(pre === undefined ? 0 : pre),
+						post: parseBedrockValue(post === undefined ? 0 : post),
+						interpolation: keyframe.lerp_mode || "linear"
+					};
+				});
+			});
+			bones[boneName] = channels;
+		});
+		sortKeyframes(bones);
+
+		return {
+			name,
+			loop: animation.loop === true ? "loop" : animation.loop === "hold_on_last_frame" ? "hold" : "once",
+			length: animation.animation_length === undefined ? length : animation.animation_length,
+			bones
+		};
+	});
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+	const v0 = (p2 - p0) * 0.5;
+	const v1 = (p3 - p1) * 0.5;
+	const t2 = t * t;
+	const t3 = t * t2;
+	return (2 * p1 - 2 * p2 + v0 + v1) * t3 + (-3 * p1 + 3 * p2 - 2 * v0 - v1) * t2 + v0 * t + p1;
+}
+
+/**
+ * Samples a track at the given time.
+ */
+export function sampleBoneTrack(keyframes: ReadonlyArray<BoneKeyframe>, time: number): Vec3 {
+	if (time <= keyframes[0].time) {
+		return keyframes[0].pre;
+	}
+	const last = keyframes[keyframes.length - 1];
+	if (time >= last.time) {
+		return last.post;
+	}
+
+	let index = 0;
+	while (keyframes[index + 1].time <= time) {
+		index++;
+	}
+	const before = keyframes[index];
+	const after = keyframes[index + 1];
+	const t = (time - before.time) / (after.time - before.time);
+
+	if (before.interpolation === "step") {
+		return before.post;
+	}
+	if (before.interpolation === "catmullrom" || after.interpolation === "catmullrom") {
+		const previous = index > 0 ? keyframes[index - 1].post : before.post;
+		const next = index + 2 < keyframes.length ? keyframes[index + 2].pre : after.pre;
+		return [0, 1, 2].map(i => catmullRom(previous[i], before.post[i], after.pre[i], next[i], t)) as Vec3;
+	}
+	return [0, 1, 2].map(i => before.post[i] + (after.pre[i] - before.post[i]) * t) as Vec3;
+}
+
+interface BoneState {
+	readonly bone: Object3D;
+	readonly position: Vector3;
+	readonly rotation: Euler;
+	readonly scale: Vector3;
+	readonly bedrock: boolean;
+}
+
+/**
+ * Plays a BoneAnimationClip on the bones of a custom model.
+ *
+ * The rest pose of the bones is recorded when this object is created.
+ * Bones are looked up by name in `target`, which is usually the model of an accessory:
+ * ```
+ * const accessory = skinViewer.getAccessory("pet");
+ * const clip = parseBlockbenchAnimations(bbmodel)[0];
+ * skinViewer.animations.add(new BoneAnimation(clip, accessory.model));
+ * ```
+ */
+export class BoneAnimation implements IAnimation {
+
+	private readonly states: Map<string, BoneState> = new Map();
+
+	constructor(readonly clip: BoneAnimationClip, target: Object3D) {
+		Object.keys(clip.bones).forEach(name => {
+			let bone: Object3D | undefined;
+			target.traverse(it => {
+				// cubes may have the same name as bones
+				if (bone === undefined && it.name === name && it.type !== "Mesh") {
+					bone = it;
+				}
+			});
+			if (bone !== undefined) {
+				this.states.set(name, {
+					bone,
+					position: bone.position.clone(),
+					rotation: bone.rotation.clone(),
+					scale: bone.scale.clone(),
+					bedrock: isBedrockBone(bone)
+				});
+			}
+		});
+	}
+
+	play(player: PlayerObject, time: number): void {
+		const length = this.clip.length;
+		let rest = false;
+		if (length > 0) {
+			if (this.clip.loop === "loop") {
+				time = ((time % length) + length) % length;
+			} else if (time > length) {
+				rest = this.clip.loop === "once";
+				time = length;
+			}
+		}
+
+		this.states.forEach((state, name) => {
+			const { bone } = state;
+			bone.position.copy(state.position);
+			bone.rotation.copy(state.rotation);
+			bone.scale.copy(state.scale);
+			if (rest) {
+				return;
+			}
+
+			const channels = this.clip.bones[name];
+			if (channels.rotation !== undefined && channels.rotation.length > 0) {
+				const [x, y, z] = sampleBoneTrack(channels.rotation, time);
+				if (state.bedrock) {
+					// converted as the rotation of the bone itself, whose order is kept
+					const offset = fromBedrockRotation([x, y, z]);
+					bone.rotation.x += offset.x;
+					bone.rotation.y += offset.y;
+					bone.rotation.z += offset.z;
+				} else {
+					// Blockbench displays rotations with x and y inverted
+					bone.rotation.x -= x * Math.PI / 180;
+					bone.rotation.y -= y * Math.PI / 180;
+					bone.rotation.z += z * Math.PI / 180;
+				}
+			}
+			if (channels.position !== undefined && channels.position.length > 0) {
+				const [x, y, z] = sampleBoneTrack(channels.position, time);
+				if (state.bedrock) {
+					bone.position.add(fromBedrockPosition([x, y, z]));
+				} else {
+					bone.position.x -= x;
+					bone.position.y += y;
+					bone.position.z += z;
+				}
+			}
+			if (channels.scale !== undefined && channels.scale.length > 0) {
+				const [x, y, z] = sampleBoneTrack(channels.scale, time);
+				bone.scale.multiply(new Vector3(x, y, z));
+			}
+		});
+	}
+}
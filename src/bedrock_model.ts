@@ -0,0 +1,504 @@
+import { BufferGeometry, DoubleSide, Euler, Float32BufferAttribute, Group, Material, Mesh, MeshStandardMaterial, Object3D, Texture, Vector3 } from "three";
+import { createJavaElementGeometry, JavaModelFace, JavaModelFaceName, Vec2, Vec3, Vec4 } from "./java_model.js";
+import { ModelValidationError, ModelValidationIssue, ModelValidator } from "./validation.js";
+
+export interface BedrockFaceUV {
+	uv: Vec2;
+	uv_size?: Vec2;
+
+	/**
+	 * In degrees.
+	 */
+	uv_rotation?: number;
+}
+
+export interface BedrockCube {
+	/**
+	 * The minimum corner of the cube.
+	 */
+	origin: Vec3;
+	size: Vec3;
+
+	/**
+	 * The offset of a box UV layout, or the UV of each face.
+	 */
+	uv?: Vec2 | Partial<Record<JavaModelFaceName, BedrockFaceUV>>;
+	inflate?: number;
+	mirror?: boolean;
+	pivot?: Vec3;
+
+	/**
+	 * In degrees.
+	 */
+	rotation?: Vec3;
+}
+
+export interface BedrockPolyMesh {
+	/**
+	 * Whether the UVs are in 0..1 instead of pixels.
+	 */
+	normalized_uvs?: boolean;
+	positions: Array<Vec3>;
+	normals?: Array<Vec3>;
+	uvs: Array<Vec2>;
+
+	/**
+	 * Each polygon is a list of [position, normal, uv] indexes.
+	 * "tri_list" and "quad_list" mean that every 3 or 4 consecutive vertices form a polygon.
+	 */
+	polys: Array<Array<Vec3>> | "tri_list" | "quad_list";
+}
+
+export interface BedrockBone {
+	name: string;
+	parent?: string;
+	pivot?: Vec3;
+
+	/**
+	 * In degrees.
+	 */
+	rotation?: Vec3;
+
+	/**
+	 * Default value of `mirror` for the cubes of the bone.
+	 */
+	mirror?: boolean;
+
+	/**
+	 * Default value of `inflate` for the cubes of the bone.
+	 */
+	inflate?: number;
+	cubes?: Array<BedrockCube>;
+	poly_mesh?: BedrockPolyMesh;
+}
+
+/**
+ * A geometry of Bedrock Edition, in the format of 1.12.0 and later.
+ */
+export interface BedrockGeometry {
+	description: {
+		identifier: string;
+		texture_width?: number;
+		texture_height?: number;
+	};
+	bones?: Array<BedrockBone>;
+}
+
+/**
+ * A Bedrock Edition geometry file (*.geo.json).
+ * Both the current format ("minecraft:geometry") and the legacy format ("geometry.xxx" keys) are supported.
+ */
+export interface BedrockGeometryFile {
+	format_version: string;
+	"minecraft:geometry"?: Array<BedrockGeometry>;
+	[legacyIdentifier: string]: unknown;
+}
+
+interface LegacyBedrockGeometry {
+	texturewidth?: number;
+	textureheight?: number;
+	bones?: Array<BedrockBone>;
+}
+
+export function isBedrockGeometryFile(json: unknown): json is BedrockGeometryFile {
+	if (typeof json !== "object" || json === null || typeof (json as Partial<BedrockGeometryFile>).format_version !== "string") {
+		return false;
+	}
+	return Object.keys(json).some(key => key === "minecraft:geometry" || key.startsWith("geometry."));
+}
+
+/**
+ * Reads the geometries in a geometry file, converting legacy geometries to the current format.
+ */
+export function parseBedrockGeometryFile(file: BedrockGeometryFile): Array<BedrockGeometry> {
+	const result: Array<BedrockGeometry> = [...(file["minecraft:geometry"] || [])];
+	Object.keys(file).forEach(key => {
+		if (!key.startsWith("geometry.")) {
+			return;
+		}
+		const legacy = file[key] as LegacyBedrockGeometry;
+		result.push({
+			description: {
+				// "geometry.a:geometry.b" means that a inherits b, which is not supported
+				identifier: key.split(":")[0],
+				texture_width: legacy.texturewidth,
+				texture_height: legacy.textureheight
+			},
+			bones: legacy.bones
+		});
+	});
+	return result;
+}
+
+function validateCube(validator: ModelValidator, cube: unknown, path: string): void {
+	const child = ModelValidator.child;
+	if (!validator.isObject(cube, path)) {
+		return;
+	}
+	validator.isVector(cube.origin, 3, child(path, "origin"));
+	validator.isVector(cube.size, 3, child(path, "size"));
+	if (cube.pivot !== undefined) {
+		validator.isVector(cube.pivot, 3, child(path, "pivot"));
+	}
+	if (cube.rotation !== undefined) {
+		validator.isVector(cube.rotation, 3, child(path, "rotation"));
+	}
+	if (cube.inflate !== undefined) {
+		validator.isNumber(cube.inflate, child(path, "inflate"));
+	}
+	if (cube.mirror !== undefined) {
+		validator.isBoolean(cube.mirror, child(path, "mirror"));
+	}
+
+	const uv = cube.uv;
+	const uvPath = child(path, "uv");
+	if (uv === undefined || Array.isArray(uv)) {
+		if (uv !== undefined) {
+			validator.isVector(uv, 2, uvPath);
+		}
+	} else if (validator.isObject(uv, uvPath)) {
+		Object.keys(uv).forEach(name => {
+			const face = uv[name];
+			const facePath = child(uvPath, name);
+			if (validator.isObject(face, facePath)) {
+				validator.isVector(face.uv, 2, child(facePath, "uv"));
+				if (face.uv_size !== undefined) {
+					validator.isVector(face.uv_size, 2, child(facePath, "uv_size"));
+				}
+			}
+		});
+	}
+}
+
+function validatePolyMesh(validator: ModelValidator, mesh: unknown, path: string): void {
+	const child = ModelValidator.child;
+	if (!validator.isObject(mesh, path)) {
+		return;
+	}
+	(["positions", "normals", "uvs"] as const).forEach(key => {
+		const list = mesh[key];
+		const length = key === "uvs" ? 2 : 3;
+		if (list === undefined && key === "normals") {
+			return;
+		}
+		if (validator.isArray(list, child(path, key))) {
+			list.forEach((it, i) => validator.isVector(it, length, child(child(path, key), i)));
+		}
+	});
+	if (mesh.polys !== "tri_list" && mesh.polys !== "quad_list" && validator.isArray(mesh.polys, child(path, "polys"))) {
+		mesh.polys.forEach((poly, i) => {
+			const polyPath = child(child(path, "polys"), i);
+			if (validator.isArray(poly, polyPath)) {
+				if (poly.length !== 3 && poly.length !== 4) {
+					validator.report(polyPath, "must have 3 or 4 vertices");
+				}
+				poly.forEach((vertex, j) => validator.isVector(vertex, 3, child(polyPath, j)));
+			}
+		});
+	}
+}
+
+function validateGeometry(validator: ModelValidator, geometry: unknown, path: string, legacy: boolean): void {
+	const child = ModelValidator.child;
+	if (!validator.isObject(geometry, path)) {
+		return;
+	}
+	if (!legacy && validator.isObject(geometry.description, child(path, "description"))) {
+		validator.isString(geometry.description.identifier, child(path, "description.identifier"));
+	}
+	const bones = geometry.bones;
+	if (bones === undefined || !validator.isArray(bones, child(path, "bones"))) {
+		return;
+	}
+	bones.forEach((bone, i) => {
+		const bonePath = child(child(path, "bones"), i);
+		if (!validator.isObject(bone, bonePath)) {
+			return;
+		}
+		validator.isString(bone.name, child(bonePath, "name"));
+		if (bone.parent !== undefined) {
+			validator.isString(bone.parent, child(bonePath, "parent"));
+		}
+		if (bone.pivot !== undefined) {
+			validator.isVector(bone.pivot, 3, child(bonePath, "pivot"));
+		}
+		if (bone.rotation !== undefined) {
+			validator.isVector(bone.rotation, 3, child(bonePath, "rotation"));
+		}
+		if (bone.cubes !== undefined && validator.isArray(bone.cubes, child(bonePath, "cubes"))) {
+			bone.cubes.forEach((cube, j) => validateCube(validator, cube, child(child(bonePath, "cubes"), j)));
+		}
+		if (bone.poly_mesh !== undefined) {
+			validatePolyMesh(validator, bone.poly_mesh, child(bonePath, "poly_mesh"));
+		}
+	});
+}
+
+/**
+ * Checks the structure of a Bedrock Edition geometry file.
+ * @returns every problem found, or an empty array if the file is valid
+ */
+export function validateBedrockGeometryFile(json: unknown): Array<ModelValidationIssue> {
+	const validator = new ModelValidator();
+	const child = ModelValidator.child;
+	if (!validator.isObject(json, "")) {
+		return validator.issues;
+	}
+	validator.isString(json.format_version, "format_version");
+	Object.keys(json).forEach(key => {
+		if (key === "minecraft:geometry") {
+			const list = json[key];
+			if (validator.isArray(list, key)) {
+				list.forEach((geometry, i) => validateGeometry(validator, geometry, child(key, i), false));
+			}
+		} else if (key.startsWith("geometry.")) {
+			validateGeometry(validator, json[key], key, true);
+		}
+	});
+	return validator.issues;
+}
+
+/**
+ * @throws ModelValidationError if the file is malformed
+ */
+export function assertValidBedrockGeometryFile(json: unknown): asserts json is BedrockGeometryFile {
+	const issues = validateBedrockGeometryFile(json);
+	if (issues.length > 0) {
+		throw new ModelValidationError(issues);
+	}
+}
+
+/**
+ * Converts a position from Bedrock Edition to the coordinate system of skinview3d.
+ * Bedrock models face -z, while skinview3d models face +z, and x is mirrored between them.
+ */
+export function fromBedrockPosition(position: Vec3 | undefined): Vector3 {
+	if (position === undefined) {
+		return new Vector3();
+	}
+	return new Vector3(position[0], position[1], -position[2]);
+}
+
+/**
+ * Converts a rotation (in degrees) from Bedrock Edition to the coordinate system of skinview3d.
+ */
+export function fromBedrockRotation(rotation: Vec3 | undefined): Euler {
+	if (rotation === undefined) {
+		// in the same order, so that rotations added by animations are applied the same way
+		return new Euler(0, 0, 0, "ZYX");
+	}
+	return new Euler(
+		rotation[0] * Math.PI / 180,
+		-rotation[1] * Math.PI / 180,
+		-rotation[2] * Math.PI / 180,
+		"ZYX"
+	);
+}
+
+function boxFaces(uv: Vec2, size: Vec3, mirror: boolean): Partial<Record<JavaModelFaceName, JavaModelFace>> {
+	const [u, v] = uv;
+	const [w, h, d] = size;
+	// the same layout as the skin
+	const faces: Record<JavaModelFaceName, Vec4> = {
+		east: [u + w + d, v + d, u + w + 2 * d, v + d + h],
+		west: [u, v + d, u + d, v + d + h],
+		up: [u + d, v, u + d + w, v + d],
+		down: [u + d + w, v + d, u + 2 * w + d, v],
+		south: [u + d, v + d, u + d + w, v + d + h],
+		north: [u + 2 * d + w, v + d, u + 2 * w + 2 * d, v + d + h]
+	};
+	if (mirror) {
+		[faces.east, faces.west] = [faces.west, faces.east];
+	}
+
+	const result: Partial<Record<JavaModelFaceName, JavaModelFace>> = {};
+	(Object.keys(faces) as Array<JavaModelFaceName>).forEach(name => {
+		const [u1, v1, u2, v2] = faces[name];
+		result[name] = { uv: mirror ? [u2, v1, u1, v2] : [u1, v1, u2, v2], texture: "" };
+	});
+	return result;
+}
+
+const BEDROCK_FACES: Readonly<Record<JavaModelFaceName, JavaModelFaceName>> = {
+	// Bedrock name -> skinview3d name
+	north: "south",
+	south: "north",
+	east: "west",
+	west: "east",
+	up: "up",
+	down: "down"
+};
+
+function perFaceUVs(uv: Partial<Record<JavaModelFaceName, BedrockFaceUV>>): Partial<Record<JavaModelFaceName, JavaModelFace>> {
+	const result: Partial<Record<JavaModelFaceName, JavaModelFace>> = {};
+	(Object.keys(BEDROCK_FACES) as Array<JavaModelFaceName>).forEach(name => {
+		const face = uv[name];
+		if (face === undefined) {
+			return;
+		}
+		const [u, v] = face.uv;
+		const [w, h] = face.uv_size === undefined ? [0, 0] : face.uv_size;
+		const target = BEDROCK_FACES[name];
+		result[target] = {
+			uv: target === "down" ? [u, v + h, u + w, v] : [u, v, u + w, v + h],
+			rotation: face.uv_rotation,
+			texture: ""
+		};
+	});
+	return result;
+}
+
+function createCubeMesh(cube: BedrockCube, bone: BedrockBone, pivot: Vector3, uvSize: Vec2, material: Material): Mesh {
+	const inflate = cube.inflate === undefined ? (bone.inflate || 0) : cube.inflate;
+	const mirror = cube.mirror === undefined ? bone.mirror === true : cube.mirror;
+
+	const faces = cube.uv === undefined || Array.isArray(cube.uv) ?
+		boxFaces(cube.uv === undefined ? [0, 0] : cube.uv, cube.size, mirror) :
+		perFaceUVs(cube.uv);
+
+	const [ox, oy, oz] = cube.origin;
+	const [sx, sy, sz] = cube.size;
+	const faceNames = Object.keys(faces) as Array<JavaModelFaceName>;
+	const geometry = createJavaElementGeometry({
+		from: [ox - inflate, oy - inflate, -(oz + sz) - inflate],
+		to: [ox + sx + inflate, oy + sy + inflate, -oz + inflate],
+		faces
+	}, faceNames, { uvSize });
+
+	const mesh = new Mesh(geometry, faceNames.map(() => material));
+	if (cube.rotation !== undefined) {
+		const cubePivot = cube.pivot === undefined ? pivot : fromBedrockPosition(cube.pivot);
+		geometry.translate(-cubePivot.x, -cubePivot.y, -cubePivot.z);
+		mesh.position.copy(cubePivot).sub(pivot);
+		mesh.rotation.copy(fromBedrockRotation(cube.rotation));
+	} else {
+		geometry.translate(-pivot.x, -pivot.y, -pivot.z);
+	}
+	return mesh;
+}
+
+function createPolyMesh(polyMesh: BedrockPolyMesh, pivot: Vector3, uvSize: Vec2, material: Material): Mesh {
+	let polys: Array<Array<Vec3>>;
+	if (polyMesh.polys === "tri_list" || polyMesh.polys === "quad_list") {
+		const size = polyMesh.polys === "tri_list" ? 3 : 4;
+		polys = [];
+		for (let i = 0; i + size <= polyMesh.positions.length; i += size) {
+			const poly: Array<Vec3> = [];
+			for (let j = i; j < i + size; j++) {
+				poly.push([j, j, j]);
+			}
+			polys.push(poly);
+		}
+	} else {
+		polys = polyMesh.polys;
+	}
+
+	const [uvWidth, uvHeight] = polyMesh.normalized_uvs === true ? [1, 1] : uvSize;
+	const positions: Array<number> = [];
+	const normals: Array<number> = [];
+	const uvs: Array<number> = [];
+	polys.forEach(poly => {
+		// the conversion mirrors the mesh, so the winding order is reversed
+		const triangles = poly.length === 4 ? [[0, 2, 1], [0, 3, 2]] : [[0, 2, 1]];
+		triangles.forEach(triangle => triangle.forEach(i => {
+			const [positionIndex, normalIndex, uvIndex] = poly[i];
+			const position = fromBedrockPosition(polyMesh.positions[positionIndex]).sub(pivot);
+			const normal = fromBedrockPosition(polyMesh.normals?.[normalIndex]);
+			const uv = polyMesh.uvs[uvIndex];
+			positions.push(position.x, position.y, position.z);
+			normals.push(normal.x, normal.y, normal.z);
+			uvs.push(uv[0] / uvWidth, uv[1] / uvHeight);
+		}));
+	});
+
+	const geometry = new BufferGeometry();
+	geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+	geometry.setAttribute("normal", new Float32BufferAttribute(normals, 3));
+	geometry.setAttribute("uv", new Float32BufferAttribute(uvs, 2));
+	if (polyMesh.normals === undefined) {
+		geometry.computeVertexNormals();
+	}
+	return new Mesh(geometry, material);
+}
+
+export function getBedrockTextureSize(geometry: BedrockGeometry): Vec2 {
+	return [geometry.description.texture_width || 64, geometry.description.texture_height || 64];
+}
+
+const bedrockBones: WeakSet<Object3D> = new WeakSet();
+
+/**
+ * Whether the object is the Group of a bone built from Bedrock Edition geometry (see `createBedrockBone`).
+ * The animations of such bones use the axes of Bedrock Edition, like its geometry.
+ */
+export function isBedrockBone(object: Object3D): boolean {
+	return bedrockBones.has(object);
+}
+
+/**
+ * Creates a Group for a bone, without its child bones.
+ * The origin of the group is the pivot of the bone, and the group has the rotation of the bone.
+ * The position of the group is the pivot of the bone, relative to the given origin.
+ */
+export function createBedrockBone(bone: BedrockBone, geometry: BedrockGeometry, material: Material, origin: Vector3 = new Vector3()): Group {
+	const uvSize = getBedrockTextureSize(geometry);
+	const pivot = fromBedrockPosition(bone.pivot);
+
+	const group = new Group();
+	group.name = bone.name;
+	bedrockBones.add(group);
+	group.position.copy(pivot).sub(origin);
+	group.rotation.copy(fromBedrockRotation(bone.rotation));
+	(bone.cubes || []).forEach(cube => group.add(createCubeMesh(cube, bone, pivot, uvSize, material)));
+	if (bone.poly_mesh !== undefined) {
+		group.add(createPolyMesh(bone.poly_mesh, pivot, uvSize, material));
+	}
+	return group;
+}
+
+/**
+ * Calls `visit` for each bone, parents first, with the Group of its parent bone (or `root`).
+ */
+export function buildBedrockBones(
+	geometry: BedrockGeometry,
+	root: Group,
+	visit: (bone: BedrockBone, parent: Group, parentBone: BedrockBone | null) => Group
+): void {
+	const bones = geometry.bones || [];
+	const names = new Set(bones.map(bone => bone.name));
+	const build = (parent: Group, parentBone: BedrockBone | null) => {
+		bones
+			.filter(bone => parentBone === null ?
+				bone.parent === undefined || !names.has(bone.parent) :
+				bone.parent === parentBone.name)
+			.forEach(bone => build(visit(bone, parent, parentBone), bone));
+	};
+	build(root, null);
+}
+
+/**
+ * Builds a Bedrock Edition geometry, such as an attachable, as a hierarchy of bones.
+ *
+ * The origin of the geometry (the feet of the player) is moved to the bottom center of the block,
+ * and the geometry is turned to face north, following the convention of Java block models.
+ * If `texture` is null, the geometry is drawn in plain white, as materials without a texture are.
+ */
+export function createBedrockModel(geometry: BedrockGeometry, texture: Texture | null): Group {
+	const material = new MeshStandardMaterial({
+		map: texture,
+		side: DoubleSide,
+		transparent: true,
+		alphaTest: 1e-5
+	});
+
+	const root = new Group();
+	root.name = geometry.description.identifier;
+	buildBedrockBones(geometry, root, (bone, parent, parentBone) => {
+		const group = createBedrockBone(bone, geometry, material, fromBedrockPosition(parentBone?.pivot));
+		parent.add(group);
+		return group;
+	});
+	root.position.set(8, 0, 8);
+	root.rotation.y = Math.PI;
+	return root;
+}
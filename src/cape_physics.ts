@@ -0,0 +1,186 @@
+import { Matrix4, Vector3 } from "three";
+import { IAnimation } from "./animation.js";
+import { PlayerObject } from "./model.js";
+
+export interface CapePhysicsOptions {
+	/**
+	 * How many slices the cape is divided into. Default is 8.
+	 */
+	segments?: number;
+
+	/**
+	 * In units per second squared, where a player is 32 units (2 blocks) tall. Default is 160.
+	 */
+	gravity?: number;
+
+	/**
+	 * The share of the velocity lost at each step, from 0 to 1. Default is 0.02.
+	 */
+	damping?: number;
+
+	/**
+	 * The length of a simulation step, in seconds. Default is 1/60.
+	 */
+	timeStep?: number;
+
+	/**
+	 * How many times the constraints are solved at each step. Default is 8.
+	 */
+	iterations?: number;
+}
+
+/**
+ * Simulates the cape as a chain of points (verlet integration) that swings with the motion of the player,
+ * e.g. when the player is rotated or moved, and rests against the back of the body instead of going through it.
+ *
+ * The simulation advances by a fixed time step, following the time of the animation, so it stays stable
+ * at any frame rate. The player is only known at each frame, and is taken to move in a straight line in between,
+ * so the result still depends slightly on how the time is split into frames.
+ *
+ * It is a layer (see `IAnimation.layer`), so it follows the pose made by the other animations,
+ * whatever the order they were added in. It divides the cape (see `CapeObject.setSegmentCount`),
+ * and takes over the way it hangs. To go back to the rigid cape, remove the animation and call
+ * `player.cape.setSegmentCount(0)`.
+ */
+export class CapePhysics implements IAnimation {
+	readonly layer = true;
+
+	readonly segments: number;
+	gravity: number;
+	damping: number;
+	readonly timeStep: number;
+	iterations: number;
+
+	private player: PlayerObject | null = null;
+	private lastTime: number = 0;
+	private accumulator: number = 0;
+
+	// in world space
+	private points: Array<Vector3> = [];
+	private previousPoints: Array<Vector3> = [];
+	private anchor: Vector3 = new Vector3();
+
+	constructor(options: CapePhysicsOptions = {}) {
+		this.segments = options.segments === undefined ? 8 : options.segments;
+		this.gravity = options.gravity === undefined ? 160 : options.gravity;
+		this.damping = options.damping === undefined ? 0.02 : options.damping;
+		this.timeStep = options.timeStep === undefined ? 1 / 60 : options.timeStep;
+		this.iterations = options.iterations === undefined ? 8 : options.iterations;
+	}
+
+	/**
+	 * Lets the cape hang still from where it is attached.
+	 */
+	reset(): void {
+		this.player = null;
+	}
+
+	private start(player: PlayerObject, time: number): void {
+		const cape = player.cape;
+		cape.setSegmentCount(this.segments);
+		cape.resetSegments();
+		cape.updateWorldMatrix(true, false);
+
+		const length = 16 / this.segments;
+		this.points = [];
+		for (let i = 0; i <= this.segments; i++) {
+			this.points.push(cape.localToWorld(new Vector3(0, -i * length, 0)));
+		}
+		this.previousPoints = this.points.map(point => point.clone());
+		this.anchor.copy(this.points[0]);
+		this.player = player;
+		this.lastTime = time;
+		this.accumulator = 0;
+	}
+
+	play(player: PlayerObject, time: number): void {
+		const delta = time - this.lastTime;
+		// start over when rewound, or after a jump in time that would take too many steps to catch up with
+		if (this.player !== player || delta < 0 || delta > 1) {
+			this.start(player, time);
+		}
+		this.lastTime = time;
+		this.accumulator += Math.max(0, delta);
+
+		const cape = player.cape;
+		player.updateWorldMatrix(true, true);
+		const anchor = cape.localToWorld(new Vector3());
+		const capeInverse = new Matrix4().copy(cape.matrixWorld).invert();
+		const body = player.skin.body;
+		const bodyInverse = new Matrix4().copy(body.matrixWorld).invert();
+
+		const steps = Math.floor(this.accumulator / this.timeStep);
+		this.accumulator -= steps * this.timeStep;
+		const previousAnchor = this.anchor.clone();
+		for (let i = 1; i <= steps; i++) {
+			// the player moves smoothly between the two frames
+			this.step(previousAnchor.clone().lerp(anchor, i / steps), bodyInverse, body.matrixWorld);
+		}
+		this.anchor.copy(anchor);
+		this.points[0].copy(anchor);
+
+		this.applyToSegments(capeInverse);
+	}
+
+	private step(anchor: Vector3, bodyInverse: Matrix4, bodyMatrix: Matrix4): void {
+		const dt = this.timeStep;
+		const keep = 1 - this.damping;
+		this.points.forEach((point, i) => {
+			const previous = this.previousPoints[i];
+			const current = point.clone();
+			if (i > 0) {
+				point.x += (point.x - previous.x) * keep;
+				point.y += (point.y - previous.y) * keep - this.gravity * dt * dt;
+				point.z += (point.z - previous.z) * keep;
+			}
+			previous.copy(current);
+		});
+		this.points[0].copy(anchor);
+
+		const length = 16 / this.segments;
+		const local = new Vector3();
+		for (let iteration = 0; iteration < this.iterations; iteration++) {
+			for (let i = 1; i < this.points.length; i++) {
+				const a = this.points[i - 1];
+				const b = this.points[i];
+				const difference = b.clone().sub(a);
+				const distance = difference.length();
+				if (distance === 0) {
+					continue;
+				}
+				const correction = difference.multiplyScalar((distance - length) / distance);
+				if (i === 1) {
+					// the first point is attached to the player
+					b.sub(correction);
+				} else {
+					correction.multiplyScalar(0.5);
+					a.add(correction);
+					b.sub(correction);
+				}
+			}
+
+			for (let i = 1; i < this.points.length; i++) {
+				const point = this.points[i];
+				// stay behind the back of the body, which is at z = -2 in its space
+				local.copy(point).applyMatrix4(bodyInverse);
+				if (local.z > -2) {
+					local.z = -2;
+					point.copy(local).applyMatrix4(bodyMatrix);
+				}
+			}
+		}
+	}
+
+	private applyToSegments(capeInverse: Matrix4): void {
+		const segments = this.player === null ? [] : this.player.cape.segments;
+		let parentAngle = 0;
+		segments.forEach((segment, i) => {
+			const direction = this.points[i + 1].clone().applyMatrix4(capeInverse)
+				.sub(this.points[i].clone().applyMatrix4(capeInverse));
+			// a hinge rotated by angle around x points to (0, -cos(angle), -sin(angle))
+			const angle = Math.atan2(-direction.z, -direction.y);
+			segment.rotation.set(angle - parentAngle, 0, 0);
+			parentAngle = angle;
+		});
+	}
+}
@@ -1,3 +1,4 @@
+import { WebGLRenderer } from "three";
 import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
 import { FullScreenQuad } from "three/examples/jsm/postprocessing/Pass.js";
 import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
@@ -21,10 +22,17 @@ export class FXAASkinViewer extends SkinViewer {
                 options.background = "white";
             }
         }
+        // FXAA is a WebGL pass, so there is no software fallback
+        options.renderer = "webgl";
 
         super(options);
+        if (!(this.renderer instanceof WebGLRenderer)) {
+            // unreachable, since the constructor throws if WebGL is unavailable
+            throw new Error("FXAASkinViewer requires WebGL");
+        }
         this.composer = new EffectComposer(this.renderer);
         this.renderPass = new RenderPass(this.scene, this.camera);
+        this.cameraListeners.add(camera => this.renderPass.camera = camera);
         this.fxaaPass = new ShaderPass(FXAAShader);
         this.composer.addPass(this.renderPass);
         this.composer.addPass(this.fxaaPass);
@@ -0,0 +1,635 @@
+/**
+ * Pixels in the same layout as ImageData: RGBA, top-down, straight alpha.
+ */
+export interface RGBAImage {
+	readonly data: Uint8ClampedArray | Uint8Array;
+	readonly width: number;
+	readonly height: number;
+}
+
+/**
+ * Collects bytes, and bits in the LSB-first order used by deflate and GIF.
+ */
+class ByteWriter {
+	private buffer = new Uint8Array(1024);
+	private length = 0;
+	private bitBuffer = 0;
+	private bitCount = 0;
+
+	byte(value: number): void {
+		if (this.length === this.buffer.length) {
+			const buffer = new Uint8Array(this.buffer.length * 2);
+			buffer.set(this.buffer);
+			this.buffer = buffer;
+		}
+		this.buffer[this.length++] = value;
+	}
+
+	bytes(values: ArrayLike<number>): void {
+		for (let i = 0; i < values.length; i++) {
+			this.byte(values[i]);
+		}
+	}
+
+	uint16LE(value: number): void {
+		this.byte(value & 0xff);
+		this.byte((value >>> 8) & 0xff);
+	}
+
+	uint32BE(value: number): void {
+		this.byte((value >>> 24) & 0xff);
+		this.byte((value >>> 16) & 0xff);
+		this.byte((value >>> 8) & 0xff);
+		this.byte(value & 0xff);
+	}
+
+	ascii(value: string): void {
+		for (let i = 0; i < value.length; i++) {
+			this.byte(value.charCodeAt(i));
+		}
+	}
+
+	bits(value: number, count: number): void {
+		this.bitBuffer |= value << this.bitCount;
+		this.bitCount += count;
+		while (this.bitCount >= 8) {
+			this.byte(this.bitBuffer & 0xff);
+			this.bitBuffer >>>= 8;
+			this.bitCount -= 8;
+		}
+	}
+
+	flushBits(): void {
+		if (this.bitCount > 0) {
+			this.byte(this.bitBuffer & 0xff);
+		}
+		this.bitBuffer = 0;
+		this.bitCount = 0;
+	}
+
+	toArray(): Uint8Array {
+		return this.buffer.slice(0, this.length);
+	}
+}
+
+// deflate
+
+const LENGTH_BASES = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA_BITS = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASES = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA_BITS = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+const WINDOW_SIZE = 32768;
+const MAX_MATCH = 258;
+const MIN_MATCH = 3;
+const MAX_CHAIN = 64;
+
+function reverseBits(value: number, count: number): number {
+	let result = 0;
+	for (let i = 0; i < count; i++) {
+		result = (result << 1) | ((value >>> i) & 1);
+	}
+	return result;
+}
+
+// Huffman codes are stored MSB-first, while the rest of the stream is LSB-first
+function writeFixedLiteral(writer: ByteWriter, symbol: number): void {
+	if (symbol < 144) {
+		writer.bits(reverseBits(0x30 + symbol, 8), 8);
+	} else if (symbol < 256) {
+		writer.bits(reverseBits(0x190 + symbol - 144, 9), 9);
+	} else if (symbol < 280) {
+		writer.bits(reverseBits(symbol - 256, 7), 7);
+	} else {
+		writer.bits(reverseBits(0xc0 + symbol - 280, 8), 8);
+	}
+}
+
+function findCode(bases: ReadonlyArray<number>, value: number): number {
+	let code = bases.length - 1;
+	while (bases[code] > value) {
+		code--;
+	}
+	return code;
+}
+
+function writeMatch(writer: ByteWriter, length: number, distance: number): void {
+	const lengthCode = findCode(LENGTH_BASES, length);
+	writeFixedLiteral(writer, 257 + lengthCode);
+	writer.bits(length - LENGTH_BASES[lengthCode], LENGTH_EXTRA_BITS[lengthCode]);
+
+	const distanceCode = findCode(DISTANCE_BASES, distance);
+	writer.bits(reverseBits(distanceCode, 5), 5);
+	writer.bits(distance - DISTANCE_BASES[distanceCode], DISTANCE_EXTRA_BITS[distanceCode]);
+}
+
+function adler32(data: Uint8Array): number {
+	let a = 1;
+	let b = 0;
+	for (let i = 0; i < data.length; i++) {
+		a = (a + data[i]) % 65521;
+		b = (b + a) % 65521;
+	}
+	return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Compresses data in the zlib format, with fixed Huffman codes and greedy LZ77 matching.
+ * The output only depends on the input, so it is the same on every platform.
+ */
+export function zlibCompress(data: Uint8Array): Uint8Array {
+	const writer = new ByteWriter();
+	writer.byte(0x78);
+	writer.byte(0x01);
+
+	// a single final block with fixed Huffman codes
+	writer.bits(1, 1);
+	writer.bits(1, 2);
+
+	const head = new Int32Array(65536).fill(-1);
+	const previous = new Int32Array(WINDOW_SIZE).fill(-1);
+	const hash = (i: number) => ((data[i] << 8) ^ (data[i + 1] << 4) ^ data[i + 2]) & 0xffff;
+	const insert = (i: number) => {
+		if (i + MIN_MATCH <= data.length) {
+			const h = hash(i);
+			previous[i % WINDOW_SIZE] = head[h];
+			head[h] = i;
+		}
+	};
+
+	let i = 0;
+	while (i < data.length) {
+		let bestLength = 0;
+		let bestDistance = 0;
+		if (i + MIN_MATCH <= data.length) {
+			const maxLength = Math.min(MAX_MATCH, data.length - i);
+			let candidate = head[hash(i)];
+			for (let chain = 0; chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW_SIZE; chain++) {
+				let length = 0;
+				while (length < maxLength && data[candidate + length] === data[i + length]) {
+					length++;
+				}
+				if (length > bestLength) {
+					bestLength = length;
+					bestDistance = i - candidate;
+					if (length === maxLength) {
+						break;
+					}
+				}
+				const next = previous[candidate % WINDOW_SIZE];
+				// entries of the chain that fell out of the window may have been overwritten
+				if (next >= candidate) {
+					break;
+				}
+				candidate = next;
+			}
+		}
+
+		if (bestLength >= MIN_MATCH) {
+			writeMatch(writer, bestLength, bestDistance);
+			for (let j = 0; j < bestLength; j++) {
+				insert(i + j);
+			}
+			i += bestLength;
+		} else {
+			writeFixedLiteral(writer, data[i]);
+			insert(i);
+			i++;
+		}
+	}
+
+	writeFixedLiteral(writer, 256);
+	writer.flushBits();
+	writer.uint32BE(adler32(data));
+	return writer.toArray();
+}
+
+// PNG
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeChunk(writer: ByteWriter, type: string, content: Uint8Array): void {
+	const chunk = new ByteWriter();
+	chunk.ascii(type);
+	chunk.bytes(content);
+	const bytes = chunk.toArray();
+	writer.uint32BE(content.length);
+	writer.bytes(bytes);
+	writer.uint32BE(crc32(bytes));
+}
+
+function paeth(a: number, b: number, c: number): number {
+	const p = a + b - c;
+	const pa = Math.abs(p - a);
+	const pb = Math.abs(p - b);
+	const pc = Math.abs(p - c);
+	if (pa <= pb && pa <= pc) {
+		return a;
+	}
+	return pb <= pc ? b : c;
+}
+
+/**
+ * Filters the rows of an image, choosing for each row the filter with the smallest sum of absolute values.
+ */
+function filterImage(image: RGBAImage): Uint8Array {
+	const stride = image.width * 4;
+	const result = new Uint8Array((stride + 1) * image.height);
+	const candidate = new Uint8Array(stride);
+	for (let y = 0; y < image.height; y++) {
+		const row = y * stride;
+		const above = row - stride;
+		let bestFilter = 0;
+		let bestSum = Infinity;
+		for (let filter = 0; filter < 5; filter++) {
+			let sum = 0;
+			for (let x = 0; x < stride; x++) {
+				const value = image.data[row + x];
+				const a = x >= 4 ? image.data[row + x - 4] : 0;
+				const b = y > 0 ? image.data[above + x] : 0;
+				const c = x >= 4 && y > 0 ? image.data[above + x - 4] : 0;
+				let predicted = 0;
+				switch (filter) {
+					case 1: predicted = a; break;
+					case 2: predicted = b; break;
+					case 3: predicted = (a + b) >>> 1; break;
+					case 4: predicted = paeth(a, b, c); break;
+				}
+				const filtered = (value - predicted) & 0xff;
+				candidate[x] = filtered;
+				sum += filtered < 128 ? filtered : 256 - filtered;
+			}
+			if (sum < bestSum) {
+				bestSum = sum;
+				bestFilter = filter;
+				result[y * (stride + 1)] = filter;
+				result.set(candidate, y * (stride + 1) + 1);
+			}
+		}
+		result[y * (stride + 1)] = bestFilter;
+	}
+	return result;
+}
+
+function headerChunk(width: number, height: number): Uint8Array {
+	const header = new ByteWriter();
+	header.uint32BE(width);
+	header.uint32BE(height);
+	header.bytes([8, 6, 0, 0, 0]); // 8 bits per channel, RGBA, deflate, adaptive filtering, no interlace
+	return header.toArray();
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * @throws Error if there are no frames, or if the frames are empty or of different sizes
+ */
+function checkFrames(frames: ReadonlyArray<RGBAImage>): void {
+	if (frames.length === 0) {
+		throw new Error("There are no frames to encode");
+	}
+	const { width, height } = frames[0];
+	frames.forEach(frame => {
+		if (!(frame.width > 0) || !(frame.height > 0)) {
+			throw new Error(`Cannot encode an image of ${frame.width}x${frame.height} pixels`);
+		}
+		if (frame.width !== width || frame.height !== height) {
+			throw new Error("All frames must have the same size");
+		}
+	});
+}
+
+/**
+ * Runs an encoder given by one of the `...InSteps` functions to the end.
+ */
+function runSteps(steps: Generator<void, Uint8Array>): Uint8Array {
+	for (;;) {
+		const step = steps.next();
+		if (step.done === true) {
+			return step.value;
+		}
+	}
+}
+
+/**
+ * @throws Error if the image is empty
+ */
+export function encodePNG(image: RGBAImage): Uint8Array {
+	checkFrames([image]);
+	const writer = new ByteWriter();
+	writer.bytes(PNG_SIGNATURE);
+	writeChunk(writer, "IHDR", headerChunk(image.width, image.height));
+	writeChunk(writer, "IDAT", zlibCompress(filterImage(image)));
+	writeChunk(writer, "IEND", new Uint8Array(0));
+	return writer.toArray();
+}
+
+/**
+ * Computes the duration of each frame in units of `1 / unitsPerSecond`,
+ * rounding the start of each frame, so that rounding errors do not add up.
+ */
+function frameDelays(frameCount: number, fps: number, unitsPerSecond: number): Array<number> {
+	const delays: Array<number> = [];
+	for (let i = 0; i < frameCount; i++) {
+		delays.push(Math.round((i + 1) * unitsPerSecond / fps) - Math.round(i * unitsPerSecond / fps));
+	}
+	return delays;
+}
+
+/**
+ * Encodes an animated PNG that loops forever. All frames must have the same size.
+ * @throws Error if there are no frames, or if the frames are empty or of different sizes
+ */
+export function encodeAPNG(frames: ReadonlyArray<RGBAImage>, fps: number): Uint8Array {
+	return runSteps(encodeAPNGInSteps(frames, fps));
+}
+
+/**
+ * Same as `encodeAPNG`, but stops after each frame, so that the caller can let other tasks run.
+ * The file is the value returned at the end.
+ */
+export function* encodeAPNGInSteps(frames: ReadonlyArray<RGBAImage>, fps: number): Generator<void, Uint8Array> {
+	checkFrames(frames);
+	const { width, height } = frames[0];
+	const writer = new ByteWriter();
+	writer.bytes(PNG_SIGNATURE);
+	writeChunk(writer, "IHDR", headerChunk(width, height));
+
+	const animationControl = new ByteWriter();
+	animationControl.uint32BE(frames.length);
+	animationControl.uint32BE(0); // loop forever
+	writeChunk(writer, "acTL", animationControl.toArray());
+
+	const delays = frameDelays(frames.length, fps, 1000);
+	let sequence = 0;
+	for (let i = 0; i < frames.length; i++) {
+		const frame = frames[i];
+		const frameControl = new ByteWriter();
+		frameControl.uint32BE(sequence++);
+		frameControl.uint32BE(width);
+		frameControl.uint32BE(height);
+		frameControl.uint32BE(0);
+		frameControl.uint32BE(0);
+		frameControl.uint32BE((delays[i] << 16) | 1000); // delay_num, delay_den
+		frameControl.bytes([1, 0]); // clear the frame before the next one, and replace instead of blending
+		writeChunk(writer, "fcTL", frameControl.toArray());
+
+		const data = zlibCompress(filterImage(frame));
+		if (i === 0) {
+			writeChunk(writer, "IDAT", data);
+		} else {
+			const frameData = new ByteWriter();
+			frameData.uint32BE(sequence++);
+			frameData.bytes(data);
+			writeChunk(writer, "fdAT", frameData.toArray());
+		}
+		yield;
+	}
+
+	writeChunk(writer, "IEND", new Uint8Array(0));
+	return writer.toArray();
+}
+
+// GIF
+
+const GIF_COLORS = 255; // index 0 is transparent
+
+interface ColorBox {
+	readonly colors: Array<number>;
+	readonly range: number;
+	readonly channel: number;
+}
+
+function channelOf(color: number, channel: number): number {
+	return (color >>> (16 - channel * 8)) & 0xff;
+}
+
+function createBox(colors: Array<number>): ColorBox {
+	let range = -1;
+	let channel = 0;
+	for (let c = 0; c < 3; c++) {
+		let min = 255;
+		let max = 0;
+		colors.forEach(color => {
+			const value = channelOf(color, c);
+			min = Math.min(min, value);
+			max = Math.max(max, value);
+		});
+		if (max - min > range) {
+			range = max - min;
+			channel = c;
+		}
+	}
+	return { colors, range, channel };
+}
+
+/**
+ * Reduces the colors to at most GIF_COLORS with the median cut algorithm.
+ * Colors are sorted before splitting, so the palette does not depend on the order of the pixels.
+ */
+function createPalette(counts: Map<number, number>): Array<number> {
+	const colors = Array.from(counts.keys()).sort((a, b) => a - b);
+	if (colors.length <= GIF_COLORS) {
+		return colors;
+	}
+
+	const boxes: Array<ColorBox> = [createBox(colors)];
+	while (boxes.length < GIF_COLORS) {
+		let index = -1;
+		boxes.forEach((box, i) => {
+			if (box.colors.length > 1 && (index === -1 || box.range > boxes[index].range)) {
+				index = i;
+			}
+		});
+		if (index === -1) {
+			break;
+		}
+		const box = boxes[index];
+		const sorted = box.colors.slice().sort((a, b) => channelOf(a, box.channel) - channelOf(b, box.channel) || a - b);
+		const total = sorted.reduce((sum, color) => sum + (counts.get(color) as number), 0);
+		let accumulated = 0;
+		let split = 1;
+		for (; split < sorted.length - 1; split++) {
+			accumulated += counts.get(sorted[split - 1]) as number;
+			if (accumulated * 2 >= total) {
+				break;
+			}
+		}
+		boxes.splice(index, 1, createBox(sorted.slice(0, split)), createBox(sorted.slice(split)));
+	}
+
+	return boxes.map(box => {
+		const sum = [0, 0, 0];
+		let weight = 0;
+		box.colors.forEach(color => {
+			const count = counts.get(color) as number;
+			for (let c = 0; c < 3; c++) {
+				sum[c] += channelOf(color, c) * count;
+			}
+			weight += count;
+		});
+		const [r, g, b] = sum.map(it => Math.round(it / weight));
+		return (r << 16) | (g << 8) | b;
+	});
+}
+
+function findNearest(palette: ReadonlyArray<number>, color: number): number {
+	let best = 0;
+	let bestDistance = Infinity;
+	palette.forEach((candidate, i) => {
+		let distance = 0;
+		for (let c = 0; c < 3; c++) {
+			const d = channelOf(candidate, c) - channelOf(color, c);
+			distance += d * d;
+		}
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			best = i;
+		}
+	});
+	return best;
+}
+
+function encodeLZW(writer: ByteWriter, indices: Uint8Array): void {
+	const minCodeSize = 8;
+	const clearCode = 1 << minCodeSize;
+	const endCode = clearCode + 1;
+	const data = new ByteWriter();
+
+	let codeSize = minCodeSize + 1;
+	let nextCode = endCode + 1;
+	let table: Map<number, number> = new Map();
+	data.bits(clearCode, codeSize);
+
+	let current = indices[0];
+	for (let i = 1; i < indices.length; i++) {
+		const k = indices[i];
+		const key = (current << 8) | k;
+		const code = table.get(key);
+		if (code !== undefined) {
+			current = code;
+			continue;
+		}
+		data.bits(current, codeSize);
+		if (nextCode === 4096) {
+			data.bits(clearCode, codeSize);
+			nextCode = endCode + 1;
+			codeSize = minCodeSize + 1;
+			table = new Map();
+		} else {
+			if (nextCode >= (1 << codeSize)) {
+				codeSize++;
+			}
+			table.set(key, nextCode++);
+		}
+		current = k;
+	}
+	data.bits(current, codeSize);
+	data.bits(endCode, codeSize);
+	data.flushBits();
+
+	writer.byte(minCodeSize);
+	const bytes = data.toArray();
+	for (let i = 0; i < bytes.length; i += 255) {
+		const block = bytes.subarray(i, i + 255);
+		writer.byte(block.length);
+		writer.bytes(block);
+	}
+	writer.byte(0);
+}
+
+/**
+ * Encodes an animated GIF that loops forever. All frames must have the same size.
+ *
+ * All frames share a palette of up to 255 colors. Pixels whose alpha is below 128 are transparent.
+ * @throws Error if there are no frames, or if the frames are empty or of different sizes
+ */
+export function encodeGIF(frames: ReadonlyArray<RGBAImage>, fps: number): Uint8Array {
+	return runSteps(encodeGIFInSteps(frames, fps));
+}
+
+/**
+ * Same as `encodeGIF`, but stops after building the palette and after each frame,
+ * so that the caller can let other tasks run. The file is the value returned at the end.
+ */
+export function* encodeGIFInSteps(frames: ReadonlyArray<RGBAImage>, fps: number): Generator<void, Uint8Array> {
+	checkFrames(frames);
+	const { width, height } = frames[0];
+
+	const counts: Map<number, number> = new Map();
+	frames.forEach(frame => {
+		for (let i = 0; i < frame.data.length; i += 4) {
+			if (frame.data[i + 3] >= 128) {
+				const color = (frame.data[i] << 16) | (frame.data[i + 1] << 8) | frame.data[i + 2];
+				counts.set(color, (counts.get(color) || 0) + 1);
+			}
+		}
+	});
+	const palette = createPalette(counts);
+	const paletteIndices: Map<number, number> = new Map();
+	counts.forEach((_, color) => paletteIndices.set(color, findNearest(palette, color) + 1));
+	yield;
+
+	const writer = new ByteWriter();
+	writer.ascii("GIF89a");
+	writer.uint16LE(width);
+	writer.uint16LE(height);
+	writer.bytes([0xf7, 0, 0]); // global color table of 256 colors
+	for (let i = 0; i < 256; i++) {
+		const color = i === 0 || i > palette.length ? 0 : palette[i - 1];
+		writer.bytes([channelOf(color, 0), channelOf(color, 1), channelOf(color, 2)]);
+	}
+
+	// loop forever
+	writer.bytes([0x21, 0xff, 0x0b]);
+	writer.ascii("NETSCAPE2.0");
+	writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+	const delays = frameDelays(frames.length, fps, 100);
+	for (let i = 0; i < frames.length; i++) {
+		const frame = frames[i];
+		// graphic control extension: restore to background, transparent index 0
+		writer.bytes([0x21, 0xf9, 0x04, 0x09]);
+		writer.uint16LE(delays[i]);
+		writer.bytes([0x00, 0x00]);
+
+		writer.byte(0x2c);
+		writer.uint16LE(0);
+		writer.uint16LE(0);
+		writer.uint16LE(width);
+		writer.uint16LE(height);
+		writer.byte(0);
+
+		const indices = new Uint8Array(width * height);
+		for (let p = 0; p < indices.length; p++) {
+			const offset = p * 4;
+			if (frame.data[offset + 3] >= 128) {
+				const color = (frame.data[offset] << 16) | (frame.data[offset + 1] << 8) | frame.data[offset + 2];
+				indices[p] = paletteIndices.get(color) as number;
+			}
+		}
+		encodeLZW(writer, indices);
+		yield;
+	}
+
+	writer.byte(0x3b);
+	return writer.toArray();
+}
@@ -0,0 +1,599 @@
+import { BufferGeometry, Color, ColorRepresentation, DoubleSide, Float32BufferAttribute, Material, Matrix4, Mesh, MeshBasicMaterial, MeshStandardMaterial, Texture, Vector3 } from "three";
+import { ModelValidationError, ModelValidationIssue, ModelValidator } from "./validation.js";
+
+export type Vec2 = [number, number];
+export type Vec3 = [number, number, number];
+export type Vec4 = [number, number, number, number];
+
+export type JavaModelFaceName = "north" | "south" | "east" | "west" | "up" | "down";
+
+export type JavaModelDisplayContext =
+	"thirdperson_righthand" |
+	"thirdperson_lefthand" |
+	"firstperson_righthand" |
+	"firstperson_lefthand" |
+	"gui" |
+	"head" |
+	"ground" |
+	"fixed";
+
+export interface JavaModelFace {
+	/**
+	 * [u1, v1, u2, v2], from 0 to 16 whatever the size of the texture.
+	 * If unspecified, it is computed from the position of the element.
+	 */
+	uv?: Vec4;
+
+	/**
+	 * A texture variable, such as "#layer0".
+	 */
+	texture: string;
+
+	/**
+	 * Only meaningful when the model is placed next to other blocks, so it is ignored here.
+	 */
+	cullface?: JavaModelFaceName;
+
+	/**
+	 * Rotation of the texture, in degrees. Must be 0, 90, 180 or 270.
+	 */
+	rotation?: number;
+
+	/**
+	 * Index into `JsonModelOptions.tintColors`.
+	 */
+	tintindex?: number;
+}
+
+export interface JavaModelElementRotation {
+	origin: Vec3;
+	axis: "x" | "y" | "z";
+
+	/**
+	 * In degrees.
+	 */
+	angle: number;
+
+	/**
+	 * Whether to scale the faces across the whole block.
+	 */
+	rescale?: boolean;
+}
+
+export interface JavaModelElement {
+	name?: string;
+	from: Vec3;
+	to: Vec3;
+	rotation?: JavaModelElementRotation;
+
+	/**
+	 * Whether the element is affected by lighting. Default is true.
+	 */
+	shade?: boolean;
+
+	faces: Partial<Record<JavaModelFaceName, JavaModelFace>>;
+}
+
+export interface JavaModelDisplayTransform {
+	/**
+	 * In degrees.
+	 */
+	rotation?: Vec3;
+	translation?: Vec3;
+	scale?: Vec3;
+}
+
+/**
+ * A Minecraft Java Edition block / item model, as exported by Blockbench.
+ */
+export interface JavaBlockModel {
+	parent?: string;
+	ambientocclusion?: boolean;
+	display?: Partial<Record<JavaModelDisplayContext, JavaModelDisplayTransform>>;
+
+	/**
+	 * Maps texture variables to texture paths or other variables (prefixed with '#').
+	 */
+	textures?: Record<string, string>;
+
+	/**
+	 * The size of the texture in pixels, written by Blockbench for textures larger than 16x16.
+	 * It does not change the UV space, which is always 16x16, as in the game.
+	 */
+	texture_size?: Vec2;
+
+	elements?: Array<JavaModelElement>;
+}
+
+const FACE_NAMES: ReadonlyArray<JavaModelFaceName> = ["east", "west", "up", "down", "south", "north"];
+
+const DISPLAY_CONTEXTS: ReadonlyArray<JavaModelDisplayContext> = [
+	"thirdperson_righthand",
+	"thirdperson_lefthand",
+	"firstperson_righthand",
+	"firstperson_lefthand",
+	"gui",
+	"head",
+	"ground",
+	"fixed"
+];
+
+function validateFace(validator: ModelValidator, face: unknown, path: string): void {
+	const child = ModelValidator.child;
+	if (!validator.isObject(face, path)) {
+		return;
+	}
+	if (face.uv !== undefined) {
+		validator.isVector(face.uv, 4, child(path, "uv"));
+	}
+	validator.isString(face.texture, child(path, "texture"));
+	if (face.cullface !== undefined) {
+		validator.isOneOf(face.cullface, FACE_NAMES, child(path, "cullface"));
+	}
+	if (face.rotation !== undefined) {
+		validator.isOneOf(face.rotation, [0, 90, 180, 270], child(path, "rotation"));
+	}
+	if (face.tintindex !== undefined && validator.isNumber(face.tintindex, child(path, "tintindex")) && !Number.isInteger(face.tintindex)) {
+		validator.report(child(path, "tintindex"), "must be an integer");
+	}
+}
+
+function validateElement(validator: ModelValidator, element: unknown, path: string): void {
+	const child = ModelValidator.child;
+	if (!validator.isObject(element, path)) {
+		return;
+	}
+	if (element.name !== undefined) {
+		validator.isString(element.name, child(path, "name"));
+	}
+	validator.isVector(element.from, 3, child(path, "from"));
+	validator.isVector(element.to, 3, child(path, "to"));
+	if (element.shade !== undefined) {
+		validator.isBoolean(element.shade, child(path, "shade"));
+	}
+
+	const rotation = element.rotation;
+	const rotationPath = child(path, "rotation");
+	if (rotation !== undefined && validator.isObject(rotation, rotationPath)) {
+		validator.isVector(rotation.origin, 3, child(rotationPath, "origin"));
+		validator.isOneOf(rotation.axis, ["x", "y", "z"], child(rotationPath, "axis"));
+		validator.isNumber(rotation.angle, child(rotationPath, "angle"));
+		if (rotation.rescale !== undefined) {
+			validator.isBoolean(rotation.rescale, child(rotationPath, "rescale"));
+		}
+	}
+
+	const faces = element.faces;
+	const facesPath = child(path, "faces");
+	if (validator.isObject(faces, facesPath)) {
+		Object.keys(faces).forEach(name => {
+			if (FACE_NAMES.includes(name as JavaModelFaceName)) {
+				validateFace(validator, faces[name], child(facesPath, name));
+			} else {
+				validator.report(child(facesPath, name), "is not a face name");
+			}
+		});
+	}
+}
+
+/**
+ * Checks the structure of a Java block model.
+ * @returns every problem found, or an empty array if the model is valid
+ */
+export function validateJavaModel(json: unknown): Array<ModelValidationIssue> {
+	const validator = new ModelValidator();
+	const child = ModelValidator.child;
+	if (!validator.isObject(json, "")) {
+		return validator.issues;
+	}
+
+	if (json.parent !== undefined) {
+		validator.isString(json.parent, "parent");
+	}
+	if (json.ambientocclusion !== undefined) {
+		validator.isBoolean(json.ambientocclusion, "ambientocclusion");
+	}
+	if (json.texture_size !== undefined && validator.isVector(json.texture_size, 2, "texture_size")) {
+		json.texture_size.forEach((it, i) => {
+			if (it <= 0) {
+				validator.report(child("texture_size", i), "must be positive");
+			}
+		});
+	}
+
+	const textures = json.textures;
+	if (textures !== undefined && validator.isObject(textures, "textures")) {
+		Object.keys(textures).forEach(name => validator.isString(textures[name], child("textures", name)));
+	}
+
+	const display = json.display;
+	if (display !== undefined && validator.isObject(display, "display")) {
+		Object.keys(display).forEach(context => {
+			const path = child("display", context);
+			const transform = display[context];
+			if (!DISPLAY_CONTEXTS.includes(context as JavaModelDisplayContext)) {
+				validator.report(path, "is not a display context");
+				return;
+			}
+			if (!validator.isObject(transform, path)) {
+				return;
+			}
+			(["rotation", "translation", "scale"] as const).forEach(key => {
+				if (transform[key] !== undefined) {
+					validator.isVector(transform[key], 3, child(path, key));
+				}
+			});
+		});
+	}
+
+	if (json.elements === undefined) {
+		if (json.parent === undefined) {
+			validator.report("elements", "is required when there is no parent");
+		}
+	} else if (validator.isArray(json.elements, "elements")) {
+		json.elements.forEach((element, i) => validateElement(validator, element, child("elements", i)));
+	}
+
+	return validator.issues;
+}
+
+/**
+ * @throws ModelValidationError if the model is malformed
+ */
+export function assertValidJavaModel(json: unknown): asserts json is JavaBlockModel {
+	const issues = validateJavaModel(json);
+	if (issues.length > 0) {
+		throw new ModelValidationError(issues);
+	}
+}
+
+/**
+ * Textures of a model, keyed by texture variable (without '#') or texture path.
+ */
+export type JavaModelTextures = Readonly<Record<string, Texture>>;
+
+/**
+ * Returns the model whose name is given in a `parent` field, or undefined if it is unknown.
+ */
+export type JavaModelParentResolver = (name: string) => JavaBlockModel | undefined;
+
+const MAX_PARENT_DEPTH = 32;
+
+/**
+ * Merges a model with its parents into a single model without `parent`.
+ * Parents that cannot be resolved (e.g. "builtin/generated") are ignored.
+ */
+export function resolveJavaModelParents(model: JavaBlockModel, resolveParent?: JavaModelParentResolver): JavaBlockModel {
+	const chain: Array<JavaBlockModel> = [model];
+	let current = model;
+	while (current.parent !== undefined && resolveParent !== undefined && chain.length < MAX_PARENT_DEPTH) {
+		const parent = resolveParent(current.parent);
+		if (parent === undefined || chain.includes(parent)) {
+			break;
+		}
+		chain.push(parent);
+		current = parent;
+	}
+
+	const result: JavaBlockModel = {};
+	// iterate from the root parent to the model itself, so that children override parents
+	for (let i = chain.length - 1; i >= 0; i--) {
+		const it = chain[i];
+		if (it.ambientocclusion !== undefined) {
+			result.ambientocclusion = it.ambientocclusion;
+		}
+		if (it.display !== undefined) {
+			result.display = { ...result.display, ...it.display };
+		}
+		if (it.textures !== undefined) {
+			result.textures = { ...result.textures, ...it.textures };
+		}
+		if (it.texture_size !== undefined) {
+			result.texture_size = it.texture_size;
+		}
+		if (it.elements !== undefined) {
+			result.elements = it.elements;
+		}
+	}
+	return result;
+}
+
+/**
+ * Follows a texture reference (e.g. "#layer0") through the `textures` of the model,
+ * and returns every name on the way, ending with the texture path if it can be resolved.
+ */
+function resolveTextureReference(model: JavaBlockModel, reference: string): Array<string> {
+	const names: Array<string> = [];
+	let current = reference;
+	while (current.startsWith("#") && names.length < MAX_PARENT_DEPTH) {
+		const variable = current.substring(1);
+		names.push(variable);
+		const next = model.textures?.[variable];
+		if (next === undefined) {
+			return names;
+		}
+		current = next;
+	}
+	names.push(current);
+	return names;
+}
+
+function findTexture(model: JavaBlockModel, textures: Texture | JavaModelTextures, reference: string): Texture | null {
+	if (textures instanceof Texture) {
+		return textures;
+	}
+	for (const name of resolveTextureReference(model, reference)) {
+		const texture = textures[name];
+		if (texture !== undefined) {
+			return texture;
+		}
+	}
+	return null;
+}
+
+function defaultFaceUV(face: JavaModelFaceName, from: Vec3, to: Vec3): Vec4 {
+	switch (face) {
+		case "down":
+			return [from[0], 16 - to[2], to[0], 16 - from[2]];
+		case "up":
+			return [from[0], from[2], to[0], to[2]];
+		case "north":
+			return [16 - to[0], 16 - to[1], 16 - from[0], 16 - from[1]];
+		case "south":
+			return [from[0], 16 - to[1], to[0], 16 - from[1]];
+		case "west":
+			return [from[2], 16 - to[1], to[2], 16 - from[1]];
+		case "east":
+			return [16 - to[2], 16 - to[1], 16 - from[2], 16 - from[1]];
+	}
+}
+
+/**
+ * Returns the corners of a face, in the order: top-left, top-right, bottom-left, bottom-right
+ * (as seen from outside of the element, with the texture upright).
+ */
+function faceCorners(face: JavaModelFaceName, min: Vector3, max: Vector3): Array<Vector3> {
+	switch (face) {
+		case "east":
+			return [
+				new Vector3(max.x, max.y, max.z), new Vector3(max.x, max.y, min.z),
+				new Vector3(max.x, min.y, max.z), new Vector3(max.x, min.y, min.z)
+			];
+		case "west":
+			return [
+				new Vector3(min.x, max.y, min.z), new Vector3(min.x, max.y, max.z),
+				new Vector3(min.x, min.y, min.z), new Vector3(min.x, min.y, max.z)
+			];
+		case "up":
+			return [
+				new Vector3(min.x, max.y, min.z), new Vector3(max.x, max.y, min.z),
+				new Vector3(min.x, max.y, max.z), new Vector3(max.x, max.y, max.z)
+			];
+		case "down":
+			return [
+				new Vector3(min.x, min.y, max.z), new Vector3(max.x, min.y, max.z),
+				new Vector3(min.x, min.y, min.z), new Vector3(max.x, min.y, min.z)
+			];
+		case "south":
+			return [
+				new Vector3(min.x, max.y, max.z), new Vector3(max.x, max.y, max.z),
+				new Vector3(min.x, min.y, max.z), new Vector3(max.x, min.y, max.z)
+			];
+		case "north":
+			return [
+				new Vector3(max.x, max.y, min.z), new Vector3(min.x, max.y, min.z),
+				new Vector3(max.x, min.y, min.z), new Vector3(min.x, min.y, min.z)
+			];
+	}
+}
+
+/**
+ * Computes the transform of an element from its `rotation`.
+ */
+export function getJavaElementMatrix(rotation: JavaModelElementRotation | undefined): Matrix4 {
+	const matrix = new Matrix4();
+	if (rotation === undefined || rotation.angle === 0) {
+		return matrix;
+	}
+
+	const angle = rotation.angle * Math.PI / 180;
+	const axis = new Vector3(
+		rotation.axis === "x" ? 1 : 0,
+		rotation.axis === "y" ? 1 : 0,
+		rotation.axis === "z" ? 1 : 0
+	);
+	const origin = new Vector3(...rotation.origin);
+
+	matrix.makeTranslation(origin.x, origin.y, origin.z);
+	matrix.multiply(new Matrix4().makeRotationAxis(axis, angle));
+	if (rotation.rescale === true) {
+		// stretch the faces across the block, along the two axes that are being rotated
+		const factor = 1 / Math.cos(angle);
+		matrix.multiply(new Matrix4().makeScale(
+			rotation.axis === "x" ? 1 : factor,
+			rotation.axis === "y" ? 1 : factor,
+			rotation.axis === "z" ? 1 : factor
+		));
+	}
+	matrix.multiply(new Matrix4().makeTranslation(-origin.x, -origin.y, -origin.z));
+	return matrix;
+}
+
+export interface JavaElementFaceOptions {
+	/**
+	 * The size of the UV space. Default is [16, 16].
+	 */
+	uvSize?: Vec2;
+}
+
+/**
+ * Builds the geometry of an element, in model coordinates, without applying its rotation.
+ * Only the given faces are included, and each face is a separate group, whose material index is the position of the face in `faces`.
+ */
+export function createJavaElementGeometry(
+	element: JavaModelElement,
+	faces: ReadonlyArray<JavaModelFaceName>,
+	options: JavaElementFaceOptions = {}
+): BufferGeometry {
+	const [uvWidth, uvHeight] = options.uvSize === undefined ? [16, 16] : options.uvSize;
+	const min = new Vector3(...element.from).min(new Vector3(...element.to));
+	const max = new Vector3(...element.from).max(new Vector3(...element.to));
+
+	const positions: Array<number> = [];
+	const normals: Array<number> = [];
+	const uvs: Array<number> = [];
+	const indices: Array<number> = [];
+	const geometry = new BufferGeometry();
+
+	faces.forEach((faceName, materialIndex) => {
+		const face = element.faces[faceName];
+		if (face === undefined) {
+			return;
+		}
+
+		const corners = faceCorners(faceName, min, max);
+		const normal = new Vector3().subVectors(corners[2], corners[0]).cross(new Vector3().subVectors(corners[1], corners[0])).normalize();
+
+		const [u1, v1, u2, v2] = face.uv === undefined ? defaultFaceUV(faceName, element.from, element.to) : face.uv;
+		const faceUVs: Array<Vec2> = [
+			[u1, v1], [u2, v1], [u2, v2], [u1, v2]
+		];
+		// rotate the texture clockwise
+		const shift = Math.floor((face.rotation === undefined ? 0 : face.rotation) / 90) % 4;
+		const rotated = faceUVs.map((_, i) => faceUVs[(i + 4 - shift) % 4]);
+		// corners are TL, TR, BL, BR, while the UVs above go around the face clockwise
+		const cornerUVs = [rotated[0], rotated[1], rotated[3], rotated[2]];
+
+		const base = positions.length / 3;
+		corners.forEach((corner, i) => {
+			positions.push(corner.x, corner.y, corner.z);
+			normals.push(normal.x, normal.y, normal.z);
+			uvs.push(cornerUVs[i][0] / uvWidth, 1 - cornerUVs[i][1] / uvHeight);
+		});
+
+		geometry.addGroup(indices.length, 6, materialIndex);
+		indices.push(base, base + 2, base + 1, base + 2, base + 3, base + 1);
+	});
+
+	geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+	geometry.setAttribute("normal", new Float32BufferAttribute(normals, 3));
+	geometry.setAttribute("uv", new Float32BufferAttribute(uvs, 2));
+	geometry.setIndex(indices);
+	return geometry;
+}
+
+export interface JavaModelBuildOptions {
+	/**
+	 * Colors multiplied with faces that have a `tintindex`.
+	 */
+	tintColors?: Array<ColorRepresentation>;
+}
+
+/**
+ * Creates and caches the materials of a model, one for each combination of texture, shading and tint.
+ */
+export class JavaModelMaterials {
+	private readonly cache: Map<string, Material> = new Map();
+	private readonly textureIds: Map<Texture, number> = new Map();
+
+	constructor(
+		private readonly model: JavaBlockModel,
+		private readonly textures: Texture | JavaModelTextures,
+		private readonly options: JavaModelBuildOptions = {}
+	) {
+	}
+
+	get(element: JavaModelElement, face: JavaModelFace): Material | null {
+		const texture = findTexture(this.model, this.textures, face.texture);
+		if (texture === null) {
+			return null;
+		}
+		const shade = element.shade !== false;
+		const tint = face.tintindex === undefined ? undefined : this.options.tintColors?.[face.tintindex];
+
+		let textureId = this.textureIds.get(texture);
+		if (textureId === undefined) {
+			textureId = this.textureIds.size;
+			this.textureIds.set(texture, textureId);
+		}
+		const key = `${textureId}/${shade}/${tint === undefined ? "" : new Color(tint).getHexString()}`;
+
+		let material = this.cache.get(key);
+		if (material === undefined) {
+			const parameters = {
+				map: texture,
+				side: DoubleSide,
+				transparent: true,
+				alphaTest: 1e-5,
+				color: tint === undefined ? 0xffffff : tint
+			};
+			material = shade ? new MeshStandardMaterial(parameters) : new MeshBasicMaterial(parameters);
+			this.cache.set(key, material);
+		}
+		return material;
+	}
+
+	get all(): Array<Material> {
+		return Array.from(this.cache.values());
+	}
+}
+
+/**
+ * Creates one mesh for each element of a model.
+ * Faces whose texture cannot be found are left out.
+ */
+export function createJavaModelMeshes(
+	model: JavaBlockModel,
+	materials: JavaModelMaterials
+): Array<Mesh> {
+	const meshes: Array<Mesh> = [];
+
+	(model.elements || []).forEach(element => {
+		const faces = FACE_NAMES.filter(name => element.faces[name] !== undefined);
+		const faceMaterials: Array<Material> = [];
+		const visibleFaces: Array<JavaModelFaceName> = [];
+		faces.forEach(name => {
+			const material = materials.get(element, element.faces[name] as JavaModelFace);
+			if (material !== null) {
+				visibleFaces.push(name);
+				faceMaterials.push(material);
+			}
+		});
+		if (visibleFaces.length === 0) {
+			return;
+		}
+
+		const geometry = createJavaElementGeometry(element, visibleFaces);
+		const mesh = new Mesh(geometry, faceMaterials);
+		if (element.name !== undefined) {
+			mesh.name = element.name;
+		}
+		mesh.applyMatrix4(getJavaElementMatrix(element.rotation));
+		meshes.push(mesh);
+	});
+
+	return meshes;
+}
+
+/**
+ * Computes the transform applied to a model in the given display context,
+ * around the center of the block.
+ */
+export function getJavaDisplayMatrix(model: JavaBlockModel, context: JavaModelDisplayContext): Matrix4 {
+	const matrix = new Matrix4();
+	const transform = model.display?.[context];
+	if (transform === undefined) {
+		return matrix;
+	}
+	const [tx, ty, tz] = transform.translation || [0, 0, 0];
+	const [rx, ry, rz] = (transform.rotation || [0, 0, 0]).map(it => it * Math.PI / 180);
+	const [sx, sy, sz] = transform.scale || [1, 1, 1];
+
+	matrix.makeTranslation(8 + tx, 8 + ty, 8 + tz);
+	matrix.multiply(new Matrix4().makeRotationX(rx));
+	matrix.multiply(new Matrix4().makeRotationY(ry));
+	matrix.multiply(new Matrix4().makeRotationZ(rz));
+	matrix.multiply(new Matrix4().makeScale(sx, sy, sz));
+	matrix.multiply(new Matrix4().makeTranslation(-8, -8, -8));
+	return matrix;
+}
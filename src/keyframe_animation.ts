@@ -0,0 +1,261 @@
+import { Vector3Tuple } from "three";
+import { IAnimation } from "./animation.js";
+import { PlayerObject } from "./model.js";
+import { getPoseBones, PoseBoneName, POSE_BONE_NAMES } from "./pose.js";
+import { AnimationValidationError, ModelValidationIssue, ModelValidator } from "./validation.js";
+
+export type KeyframeEasing = "linear" | "step" | "ease-in" | "ease-out" | "ease-in-out";
+
+export const KEYFRAME_EASINGS: ReadonlyArray<KeyframeEasing> = ["linear", "step", "ease-in", "ease-out", "ease-in-out"];
+
+export interface Keyframe {
+	/**
+	 * In seconds.
+	 */
+	time: number;
+
+	/**
+	 * The position or the rotation of the bone, as in a Pose.
+	 */
+	value: Vector3Tuple;
+
+	/**
+	 * How the value goes from this keyframe to the next one. Default is "linear".
+	 */
+	easing?: KeyframeEasing;
+}
+
+export interface KeyframeTrack {
+	bone: PoseBoneName;
+	channel: "position" | "rotation";
+	keyframes: Array<Keyframe>;
+}
+
+/**
+ * "loop": the animation restarts at the end.
+ * "ping-pong": the animation plays backwards at the end, then forwards again, and so on.
+ * "once": the bones stay at the last frame.
+ */
+export type KeyframeLoopMode = "loop" | "ping-pong" | "once";
+
+export const KEYFRAME_LOOP_MODES: ReadonlyArray<KeyframeLoopMode> = ["loop", "ping-pong", "once"];
+
+/**
+ * The JSON form of a KeyframeAnimation.
+ */
+export interface KeyframeAnimationData {
+	/**
+	 * In seconds. Default is the time of the last keyframe.
+	 */
+	duration?: number;
+
+	/**
+	 * Default is "loop".
+	 */
+	mode?: KeyframeLoopMode;
+
+	tracks: Array<KeyframeTrack>;
+}
+
+function ease(easing: KeyframeEasing | undefined, t: number): number {
+	switch (easing) {
+		case "step":
+			return 0;
+		case "ease-in":
+			return t * t;
+		case "ease-out":
+			return t * (2 - t);
+		case "ease-in-out":
+			return t * t * (3 - 2 * t);
+		default:
+			return t;
+	}
+}
+
+/**
+ * Samples a track at the given time. Keyframes must be sorted by time.
+ */
+export function sampleKeyframes(keyframes: ReadonlyArray<Keyframe>, time: number): Vector3Tuple {
+	if (time <= keyframes[0].time) {
+		return keyframes[0].value;
+	}
+	const last = keyframes[keyframes.length - 1];
+	if (time >= last.time) {
+		return last.value;
+	}
+
+	let index = 0;
+	while (keyframes[index + 1].time <= time) {
+		index++;
+	}
+	const before = keyframes[index];
+	const after = keyframes[index + 1];
+	const t = ease(before.easing, (time - before.time) / (after.time - before.time));
+	return [0, 1, 2].map(i => before.value[i] + (after.value[i] - before.value[i]) * t) as Vector3Tuple;
+}
+
+function copyTrack(track: KeyframeTrack): KeyframeTrack {
+	return {
+		bone: track.bone,
+		channel: track.channel,
+		keyframes: track.keyframes
+			.map(keyframe => {
+				const copy: Keyframe = { time: keyframe.time, value: [...keyframe.value] };
+				if (keyframe.easing !== undefined) {
+					copy.easing = keyframe.easing;
+				}
+				return copy;
+			})
+			.sort((a, b) => a.time - b.time)
+	};
+}
+
+/**
+ * An animation of the player made of keyframes, such as an emote made in an editor.
+ *
+ * Each track moves the position or the rotation of one bone (see `PoseBoneName`),
+ * with the same values as a Pose. Bones and channels without a track are not changed.
+ *
+ * ```
+ * const nod = new KeyframeAnimation({
+ * 	duration: 1,
+ * 	tracks: [{
+ * 		bone: "head",
+ * 		channel: "rotation",
+ * 		keyframes: [
+ * 			{ time: 0, value: [0, 0, 0], easing: "ease-in-out" },
+ * 			{ time: 0.5, value: [0.4, 0, 0], easing: "ease-in-out" },
+ * 			{ time: 1, value: [0, 0, 0] }
+ * 		]
+ * 	}]
+ * });
+ * skinViewer.animations.add(nod);
+ * ```
+ */
+export class KeyframeAnimation implements IAnimation {
+	readonly duration: number;
+	readonly mode: KeyframeLoopMode;
+
+	/**
+	 * Keyframes are sorted by time. Tracks without keyframes are left out.
+	 */
+	readonly tracks: ReadonlyArray<KeyframeTrack>;
+
+	/**
+	 * The data is copied, so changing it afterwards does not affect the animation.
+	 */
+	constructor(data: KeyframeAnimationData) {
+		this.tracks = data.tracks.filter(track => track.keyframes.length > 0).map(copyTrack);
+		this.mode = data.mode === undefined ? "loop" : data.mode;
+		if (data.duration !== undefined) {
+			this.duration = data.duration;
+		} else {
+			let duration = 0;
+			this.tracks.forEach(track => duration = Math.max(duration, track.keyframes[track.keyframes.length - 1].time));
+			this.duration = duration;
+		}
+	}
+
+	/**
+	 * Whether the animation goes on after `duration`. One-shot animations finish instead.
+	 */
+	get loop(): boolean {
+		return this.mode !== "once";
+	}
+
+	/**
+	 * Converts the progress of the animation to a time within the keyframes.
+	 */
+	getLocalTime(time: number): number {
+		const duration = this.duration;
+		if (duration <= 0) {
+			return 0;
+		}
+		switch (this.mode) {
+			case "loop":
+				return ((time % duration) + duration) % duration;
+			case "ping-pong": {
+				const cycle = ((time % (2 * duration)) + 2 * duration) % (2 * duration);
+				return cycle > duration ? 2 * duration - cycle : cycle;
+			}
+			case "once":
+				return Math.min(Math.max(time, 0), duration);
+		}
+	}
+
+	play(player: PlayerObject, time: number): void {
+		const localTime = this.getLocalTime(time);
+		const bones = getPoseBones(player);
+		this.tracks.forEach(track => {
+			const [x, y, z] = sampleKeyframes(track.keyframes, localTime);
+			const bone = bones[track.bone];
+			if (track.channel === "position") {
+				bone.position.set(x, y, z);
+			} else {
+				bone.rotation.set(x, y, z);
+			}
+		});
+	}
+
+	toJSON(): KeyframeAnimationData {
+		return {
+			duration: this.duration,
+			mode: this.mode,
+			tracks: this.tracks.map(copyTrack)
+		};
+	}
+
+	/**
+	 * @throws AnimationValidationError if the data is malformed
+	 */
+	static fromJSON(json: unknown): KeyframeAnimation {
+		const issues = validateKeyframeAnimation(json);
+		if (issues.length > 0) {
+			throw new AnimationValidationError(issues);
+		}
+		return new KeyframeAnimation(json as KeyframeAnimationData);
+	}
+}
+
+/**
+ * Checks the structure of a KeyframeAnimation read from JSON.
+ * @returns every problem found, or an empty array if the data is valid
+ */
+export function validateKeyframeAnimation(json: unknown): Array<ModelValidationIssue> {
+	const validator = new ModelValidator();
+	const child = ModelValidator.child;
+	if (!validator.isObject(json, "")) {
+		return validator.issues;
+	}
+	if (json.duration !== undefined && validator.isNumber(json.duration, "duration") && json.duration < 0) {
+		validator.report("duration", "must not be negative");
+	}
+	if (json.mode !== undefined) {
+		validator.isOneOf(json.mode, KEYFRAME_LOOP_MODES, "mode");
+	}
+	if (validator.isArray(json.tracks, "tracks")) {
+		json.tracks.forEach((track, i) => {
+			const path = child("tracks", i);
+			if (!validator.isObject(track, path)) {
+				return;
+			}
+			validator.isOneOf(track.bone, POSE_BONE_NAMES, child(path, "bone"));
+			validator.isOneOf(track.channel, ["position", "rotation"], child(path, "channel"));
+			if (!validator.isArray(track.keyframes, child(path, "keyframes"))) {
+				return;
+			}
+			track.keyframes.forEach((keyframe, j) => {
+				const keyframePath = child(child(path, "keyframes"), j);
+				if (!validator.isObject(keyframe, keyframePath)) {
+					return;
+				}
+				validator.isNumber(keyframe.time, child(keyframePath, "time"));
+				validator.isVector(keyframe.value, 3, child(keyframePath, "value"));
+				if (keyframe.easing !== undefined) {
+					validator.isOneOf(keyframe.easing, KEYFRAME_EASINGS, child(keyframePath, "easing"));
+				}
+			});
+		});
+	}
+	return validator.issues;
+}
@@ -0,0 +1,157 @@
+import { Camera, MathUtils, Object3D, Plane, Quaternion, Raycaster, Vector2, Vector3 } from "three";
+import { IAnimation } from "./animation.js";
+import { PlayerObject } from "./model.js";
+
+export interface LookAtOptions {
+	/**
+	 * How far the head can turn left or right, in radians. Default is 70°.
+	 */
+	maxYaw?: number;
+
+	/**
+	 * How far the head can turn up or down, in radians. Default is 50°.
+	 */
+	maxPitch?: number;
+
+	/**
+	 * The time, in seconds, that the head takes to cover about two thirds of the way to the target.
+	 * 0 turns the head instantly. Default is 0.1.
+	 */
+	smoothing?: number;
+
+	/**
+	 * The share of the yaw that the upper body (body, arms, cape and elytra) turns by, from 0 to 1.
+	 * The head always faces the target. Default is 0.
+	 */
+	bodyFollow?: number;
+}
+
+/**
+ * Turns the head toward a point or the mouse pointer, on top of the other animations.
+ *
+ * It is a layer (see `IAnimation.layer`): it turns the head (and the upper body, see `LookAtOptions.bodyFollow`)
+ * from the pose made by the other animations, so they can still nod or shake the head.
+ *
+ * ```
+ * const lookAt = new LookAtAnimation({ bodyFollow: 0.3 });
+ * skinViewer.animations.add(lookAt);
+ * skinViewer.canvas.addEventListener("mousemove", e => {
+ * 	const rect = skinViewer.canvas.getBoundingClientRect();
+ * 	lookAt.lookAtPointer(
+ * 		(e.clientX - rect.left) / rect.width * 2 - 1,
+ * 		-(e.clientY - rect.top) / rect.height * 2 + 1,
+ * 		skinViewer.camera
+ * 	);
+ * });
+ * ```
+ */
+export class LookAtAnimation implements IAnimation {
+	readonly layer = true;
+
+	maxYaw: number;
+	maxPitch: number;
+	smoothing: number;
+	bodyFollow: number;
+
+	/**
+	 * The point to look at, in world coordinates, or null to look straight ahead.
+	 */
+	target: Vector3 | null = null;
+
+	private pointer: { readonly position: Vector2; readonly camera: Camera } | null = null;
+
+	private yaw: number = 0;
+	private pitch: number = 0;
+	private lastTime: number | null = null;
+
+	constructor(options: LookAtOptions = {}) {
+		this.maxYaw = options.maxYaw === undefined ? 70 * Math.PI / 180 : options.maxYaw;
+		this.maxPitch = options.maxPitch === undefined ? 50 * Math.PI / 180 : options.maxPitch;
+		this.smoothing = options.smoothing === undefined ? 0.1 : options.smoothing;
+		this.bodyFollow = options.bodyFollow === undefined ? 0 : options.bodyFollow;
+	}
+
+	/**
+	 * Looks at a point, in world coordinates.
+	 */
+	lookAt(point: Vector3): void {
+		this.target = point.clone();
+		this.pointer = null;
+	}
+
+	/**
+	 * Looks at the mouse pointer, given in normalized device coordinates (from -1 to 1, y upwards).
+	 * The pointer is taken to be as far from the camera as the head.
+	 */
+	lookAtPointer(x: number, y: number, camera: Camera): void {
+		this.pointer = { position: new Vector2(x, y), camera };
+		this.target = null;
+	}
+
+	lookForward(): void {
+		this.target = null;
+		this.pointer = null;
+	}
+
+	private getTargetInWorld(eye: Vector3): Vector3 | null {
+		if (this.pointer !== null) {
+			const { position, camera } = this.pointer;
+			camera.updateMatrixWorld();
+			const raycaster = new Raycaster();
+			raycaster.setFromCamera(position, camera);
+			const normal = camera.getWorldDirection(new Vector3());
+			const plane = new Plane().setFromNormalAndCoplanarPoint(normal, eye);
+			return raycaster.ray.intersectPlane(plane, new Vector3());
+		}
+		return this.target;
+	}
+
+	play(player: PlayerObject, time: number): void {
+		const skin = player.skin;
+
+		// the eyes, in the space of the skin
+		const eye = skin.head.position.clone().add(new Vector3(0, 4, 0));
+		skin.updateWorldMatrix(true, false);
+		const target = this.getTargetInWorld(skin.localToWorld(eye.clone()));
+
+		let targetYaw = 0;
+		let targetPitch = 0;
+		if (target !== null) {
+			const direction = skin.worldToLocal(target.clone()).sub(eye);
+			if (direction.lengthSq() > 0) {
+				targetYaw = MathUtils.clamp(Math.atan2(direction.x, direction.z), -this.maxYaw, this.maxYaw);
+				targetPitch = MathUtils.clamp(Math.atan2(-direction.y, Math.hypot(direction.x, direction.z)), -this.maxPitch, this.maxPitch);
+			}
+		}
+
+		const delta = this.lastTime === null ? 0 : time - this.lastTime;
+		this.lastTime = time;
+		if (this.smoothing <= 0 || delta < 0) {
+			// no smoothing, or the animation has been rewound
+			this.yaw = targetYaw;
+			this.pitch = targetPitch;
+		} else {
+			const t = 1 - Math.exp(-delta / this.smoothing);
+			this.yaw += (targetYaw - this.yaw) * t;
+			this.pitch += (targetPitch - this.pitch) * t;
+		}
+
+		// turns around the vertical axis, then up or down, on top of the rotation given by the other animations
+		const yaw = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), this.yaw);
+		const pitch = new Quaternion().setFromAxisAngle(new Vector3(1, 0, 0), this.pitch);
+		skin.head.quaternion.premultiply(yaw.multiply(pitch));
+
+		const bodyYaw = this.yaw * MathUtils.clamp(this.bodyFollow, 0, 1);
+		if (bodyYaw !== 0) {
+			// the upper body turns around the vertical axis of the player
+			const rotation = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), bodyYaw);
+			const upperBody: Array<Object3D> = [skin.body, skin.rightArm, skin.leftArm, player.cape, player.elytra];
+			upperBody.forEach(object => {
+				object.position.applyQuaternion(rotation);
+				object.quaternion.premultiply(rotation);
+			});
+			// the head already faces the target, but its pivot may be away from the axis, e.g. when crouching
+			skin.head.position.applyQuaternion(rotation);
+		}
+	}
+}
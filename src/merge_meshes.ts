@@ -0,0 +1,75 @@
+import { BufferAttribute, BufferGeometry, Float32BufferAttribute, Material, Mesh, Object3D } from "three";
+import { mergeBufferGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+
+function sliceGeometry(geometry: BufferGeometry, start: number, count: number): BufferGeometry {
+	const result = new BufferGeometry();
+	Object.keys(geometry.attributes).forEach(name => {
+		const attribute = geometry.attributes[name] as BufferAttribute;
+		const array = Array.from(attribute.array).slice(start * attribute.itemSize, (start + count) * attribute.itemSize);
+		result.setAttribute(name, new Float32BufferAttribute(array, attribute.itemSize, attribute.normalized));
+	});
+	return result;
+}
+
+function isStaticMesh(object: Object3D): object is Mesh {
+	return object instanceof Mesh && object.visible && object.children.length === 0;
+}
+
+/**
+ * Bakes the meshes in `parent` into one mesh per material, to reduce draw calls.
+ *
+ * Only the meshes directly under the same parent are merged together, and the parent's child groups
+ * are processed recursively. This way, the bones of a model keep their own meshes and can still be animated,
+ * while the cubes inside each bone become static.
+ * Hidden meshes and meshes that have children are left as they are.
+ *
+ * The geometries of the merged meshes are disposed, but their materials are kept.
+ */
+export function mergeStaticMeshes(parent: Object3D): void {
+	parent.children.forEach(child => {
+		if (!(child instanceof Mesh)) {
+			mergeStaticMeshes(child);
+		}
+	});
+
+	const meshes = parent.children.filter(isStaticMesh);
+	if (meshes.length < 2) {
+		return;
+	}
+
+	const pieces: Map<Material, Array<BufferGeometry>> = new Map();
+	meshes.forEach(mesh => {
+		mesh.updateMatrix();
+		const transformed = mesh.geometry.clone().applyMatrix4(mesh.matrix);
+		const geometry = transformed.index === null ? transformed : transformed.toNonIndexed();
+		const vertexCount = geometry.attributes.position.count;
+		const groups = geometry.groups.length > 0 ?
+			geometry.groups :
+			[{ start: 0, count: vertexCount, materialIndex: 0 }];
+
+		groups.forEach(group => {
+			const material = Array.isArray(mesh.material) ?
+				mesh.material[group.materialIndex === undefined ? 0 : group.materialIndex] :
+				mesh.material;
+			if (material === undefined) {
+				return;
+			}
+			const list = pieces.get(material) || [];
+			list.push(sliceGeometry(geometry, group.start, Math.min(group.count, vertexCount - group.start)));
+			pieces.set(material, list);
+		});
+
+		transformed.dispose();
+		geometry.dispose();
+		mesh.geometry.dispose();
+		parent.remove(mesh);
+	});
+
+	pieces.forEach((geometries, material) => {
+		const merged = mergeBufferGeometries(geometries);
+		geometries.forEach(it => it.dispose());
+		const mesh = new Mesh(merged, material);
+		mesh.name = "merged";
+		parent.add(mesh);
+	});
+}
@@ -1,5 +1,9 @@
 import { ModelType } from "skinview-utils";
-import { BoxGeometry, BufferAttribute, DoubleSide, FrontSide, Group, Matrix4, Mesh, MeshStandardMaterial, Object3D, Texture, Vector2, Vector3 } from "three";
+import { BoxGeometry, BufferAttribute, DoubleSide, FrontSide, Group, Material, Mesh, MeshStandardMaterial, Object3D, Texture, Vector2, Vector3, Vector3Tuple } from "three";
+import { assertValidBlockbenchModel, BlockbenchModel, createBlockbenchModel, isBlockbenchModel } from "./bbmodel.js";
+import { assertValidBedrockGeometryFile, BedrockGeometry, BedrockGeometryFile, buildBedrockBones, createBedrockBone, createBedrockModel, fromBedrockPosition, isBedrockGeometryFile, parseBedrockGeometryFile } from "./bedrock_model.js";
+import { assertValidJavaModel, createJavaModelMeshes, getJavaDisplayMatrix, JavaBlockModel, JavaModelBuildOptions, JavaModelDisplayContext, JavaModelMaterials, JavaModelParentResolver, JavaModelTextures, resolveJavaModelParents } from "./java_model.js";
+import { mergeStaticMeshes } from "./merge_meshes.js";
 
 function setUVs(box: BoxGeometry, u: number, v: number, width: number, height: number, depth: number, textureWidth: number, textureHeight: number): void {
 	const toFaceVertices = (x1: number, y1: number, x2: number, y2: number) => [
@@ -36,76 +40,90 @@ function setCapeUVs(box: BoxGeometry, u: number, v: number, width: number, heigh
 	setUVs(box, u, v, width, height, depth, 64, 32);
 }
 
-function rotateArray<T>(arr: T[], shift: number) {
-	let original: T[] = [...arr];
-
-	for (let i = 0; i < arr.length; ++i) {
-		arr[i] = original[(i + shift) % arr.length];
-	}
-
-	return arr;
-}
-
-function setJsonUVs(box: BoxGeometry, faceUVs: any) {
-	//console.log("FaceUVs: ", faceUVs);
-
-	const toFaceVertices = (face: {uv: number[], rotation: number | undefined} | undefined) => {
-		if (face == undefined) {
-			return [
-				new Vector2(-1.0, -1.0),
-				new Vector2(0.0, -1.0),
-				new Vector2(0.0 / 16, 0.0),
-				new Vector2(-1.0, 0.0)
-			];
-		} else {
-			let result = [
-				new Vector2(face.uv[0] / 16, 1.0 - face.uv[3] / 16),
-				new Vector2(face.uv[2] / 16, 1.0 - face.uv[3] / 16),
-				new Vector2(face.uv[2] / 16, 1.0 - face.uv[1] / 16),
-				new Vector2(face.uv[0] / 16, 1.0 - face.uv[1] / 16)
-			]
-
-			if (face.rotation == undefined) face.rotation = 0;
-
-			result = rotateArray(result, Math.floor(face.rotation / 90));
-			
-			return result;
-		}
-	};
-
-	let nth = toFaceVertices(faceUVs.north);
-	let est = toFaceVertices(faceUVs.east);
-	let sth = toFaceVertices(faceUVs.south);
-	let wst = toFaceVertices(faceUVs.west);
-	let up = toFaceVertices(faceUVs.up);
-	let down = toFaceVertices(faceUVs.down);
+/**
+ * Maps a horizontal slice of the cape, from row `top` to row `bottom` (0 to 16), to the cape texture.
+ */
+function setCapeSliceUVs(box: BoxGeometry, top: number, bottom: number): void {
+	setCapeUVs(box, 0, top, 10, bottom - top, 1);
 
+	// the top and bottom faces are the edges of the whole cape (only the outermost ones can be seen)
+	const whole = new BoxGeometry(10, 16, 1);
+	setCapeUVs(whole, 0, 0, 10, 16, 1);
 	const uvAttr = box.attributes.uv as BufferAttribute;
-	uvAttr.copyVector2sArray([
-		est[3], est[2], est[0], est[1],
-		wst[3], wst[2], wst[0], wst[1],
-		up[3], up[2], up[0], up[1],
-		down[3], down[2], down[0], down[1],
-		sth[3], sth[2], sth[0], sth[1],
-		nth[3], nth[2], nth[0], nth[1]
-	]);
+	const wholeUVAttr = whole.attributes.uv as BufferAttribute;
+	for (let i = 8; i < 16; i++) {
+		uvAttr.setXY(i, wholeUVAttr.getX(i), wholeUVAttr.getY(i));
+	}
 	uvAttr.needsUpdate = true;
+	whole.dispose();
 }
 
 /**
  * Notice that innerLayer and outerLayer may NOT be the direct children of the Group.
  */
 export class BodyPart extends Group {
-	constructor(
-		readonly innerLayer: Object3D,
-		readonly outerLayer: Object3D
-	) {
+
+	private inner: Object3D;
+	private outer: Object3D;
+
+	constructor(innerLayer: Object3D, outerLayer: Object3D) {
 		super();
+		this.inner = innerLayer;
+		this.outer = outerLayer;
 		innerLayer.name = "inner";
 		outerLayer.name = "outer";
 	}
+
+	get innerLayer(): Object3D {
+		return this.inner;
+	}
+
+	get outerLayer(): Object3D {
+		return this.outer;
+	}
+
+	/**
+	 * Replaces the objects that are treated as the layers, keeping their visibility.
+	 * The caller is responsible for adding the new layers to the part.
+	 */
+	setLayers(innerLayer: Object3D, outerLayer: Object3D): void {
+		innerLayer.visible = this.inner.visible;
+		outerLayer.visible = this.outer.visible;
+		this.inner = innerLayer;
+		this.outer = outerLayer;
+	}
 }
 
+type StandardBoneName = "head" | "body" | "rightArm" | "leftArm" | "rightLeg" | "leftLeg";
+
+/**
+ * The bones of the Bedrock Edition player geometry that are the outer layer of a body part.
+ */
+const OVERLAY_BONES: Readonly<Record<string, StandardBoneName>> = {
+	hat: "head",
+	jacket: "body",
+	rightSleeve: "rightArm",
+	leftSleeve: "leftArm",
+	rightPants: "rightLeg",
+	leftPants: "leftLeg"
+};
+
+interface BodyPartContent {
+	readonly children: ReadonlyArray<Object3D>;
+	readonly innerLayer: Object3D;
+	readonly outerLayer: Object3D;
+}
+
+export type AttachmentPointName =
+	"head" |
+	"leftShoulder" |
+	"rightShoulder" |
+	"back" |
+	"leftHand" |
+	"rightHand" |
+	"waist" |
+	"feet";
+
 export class SkinObject extends Group {
 
 	// body parts
@@ -116,29 +134,53 @@ export class SkinObject extends Group {
 	readonly rightLeg: BodyPart;
 	readonly leftLeg: BodyPart;
 
+	/**
+	 * Named points where cosmetics can be attached.
+	 *
+	 * Each point has the same orientation as the body part it lives on
+	 * (+y is up, +z is the front, +x is the player's left side),
+	 * and its origin lies on the surface of that body part:
+	 * - head: top of the head
+	 * - leftShoulder / rightShoulder: top of the arm
+	 * - back: center of the back
+	 * - leftHand / rightHand: bottom of the arm
+	 * - waist: bottom of the body
+	 * - feet: the ground between the legs. This point lives on the skin itself,
+	 *   so it does not follow the legs.
+	 */
+	readonly attachmentPoints: Readonly<Record<AttachmentPointName, Group>>;
+
 	private modelListeners: Array<() => void> = []; // called when model(slim property) is changed
 	private slim = false;
 
+	private readonly layer1Material: MeshStandardMaterial;
+	private readonly layer2Material: MeshStandardMaterial;
+	private readonly layer1MaterialBiased: MeshStandardMaterial;
+	private readonly layer2MaterialBiased: MeshStandardMaterial;
+
+	private readonly defaultContents: Map<BodyPart, BodyPartContent> = new Map();
+	private customContents: Array<Object3D> = [];
+
 	constructor(texture: Texture) {
 		super();
 
-		const layer1Material = new MeshStandardMaterial({
+		const layer1Material = this.layer1Material = new MeshStandardMaterial({
 			map: texture,
 			side: FrontSide
 		});
-		const layer2Material = new MeshStandardMaterial({
+		const layer2Material = this.layer2Material = new MeshStandardMaterial({
 			map: texture,
 			side: DoubleSide,
 			transparent: true,
 			alphaTest: 1e-5
 		});
 
-		const layer1MaterialBiased = layer1Material.clone();
+		const layer1MaterialBiased = this.layer1MaterialBiased = layer1Material.clone();
 		layer1MaterialBiased.polygonOffset = true;
 		layer1MaterialBiased.polygonOffsetFactor = 1.0;
 		layer1MaterialBiased.polygonOffsetUnits = 1.0;
 
-		const layer2MaterialBiased = layer2Material.clone();
+		const layer2MaterialBiased = this.layer2MaterialBiased = layer2Material.clone();
 		layer2MaterialBiased.polygonOffset = true;
 		layer2MaterialBiased.polygonOffsetFactor = 1.0;
 		layer2MaterialBiased.polygonOffsetUnits = 1.0;
@@ -282,6 +324,42 @@ export class SkinObject extends Group {
 		this.leftLeg.position.z = -.1;
 		this.add(this.leftLeg);
 
+		this.getBodyParts().forEach(part => this.defaultContents.set(part, {
+			children: [...part.children],
+			innerLayer: part.innerLayer,
+			outerLayer: part.outerLayer
+		}));
+
+		// Attachment points
+		const createAttachmentPoint = (name: AttachmentPointName, parent: Object3D, x: number, y: number, z: number) => {
+			const point = new Group();
+			point.name = name;
+			point.position.set(x, y, z);
+			parent.add(point);
+			return point;
+		};
+
+		const leftShoulder = createAttachmentPoint("leftShoulder", this.leftArm, 0, 2, 0);
+		const rightShoulder = createAttachmentPoint("rightShoulder", this.rightArm, 0, 2, 0);
+		const leftHand = createAttachmentPoint("leftHand", this.leftArm, 0, -10, 0);
+		const rightHand = createAttachmentPoint("rightHand", this.rightArm, 0, -10, 0);
+		this.modelListeners.push(() => {
+			// follow the center of the arm, which moves when the model changes
+			leftShoulder.position.x = leftHand.position.x = this.slim ? 0.5 : 1;
+			rightShoulder.position.x = rightHand.position.x = this.slim ? -.5 : -1;
+		});
+
+		this.attachmentPoints = {
+			head: createAttachmentPoint("head", this.head, 0, 8, 0),
+			leftShoulder,
+			rightShoulder,
+			back: createAttachmentPoint("back", this.body, 0, 0, -2),
+			leftHand,
+			rightHand,
+			waist: createAttachmentPoint("waist", this.body, 0, -6, 0),
+			feet: createAttachmentPoint("feet", this, 0, -24, 0)
+		};
+
 		this.modelType = "default";
 	}
 
@@ -305,12 +383,123 @@ export class SkinObject extends Group {
 	setOuterLayerVisible(value: boolean): void {
 		this.getBodyParts().forEach(part => part.outerLayer.visible = value);
 	}
+
+	/**
+	 * Puts the body parts back in their standing positions and rotations.
+	 */
+	resetPose(): void {
+		this.getBodyParts().forEach(part => part.rotation.set(0, 0, 0));
+		this.head.position.set(0, 0, 0);
+		this.body.position.set(0, -6, 0);
+		this.rightArm.position.set(-5, -2, 0);
+		this.leftArm.position.set(5, -2, 0);
+		this.rightLeg.position.set(-1.9, -12, -.1);
+		this.leftLeg.position.set(1.9, -12, -.1);
+	}
+
+	/**
+	 * Replaces the shape of the skin with a Bedrock Edition geometry, such as a custom player model.
+	 * If `geometry` is null, the default shape is restored.
+	 *
+	 * Bones are matched with body parts by the names used in the Bedrock Edition player geometry
+	 * (head, body, rightArm, leftArm, rightLeg, leftLeg), and the overlay bones
+	 * (hat, jacket, rightSleeve, leftSleeve, rightPants, leftPants) become the outer layers.
+	 * Body parts keep their pivots, so that animations, ears and attachment points keep working.
+	 * Bones that don't belong to any body part are added to the skin itself.
+	 *
+	 * @throws ModelValidationError if the geometry is malformed
+	 */
+	setGeometry(geometry: BedrockGeometry | null): void {
+		if (geometry !== null) {
+			assertValidBedrockGeometryFile({ format_version: "1.12.0", "minecraft:geometry": [geometry] });
+		}
+
+		this.customContents.forEach(content => {
+			content.removeFromParent();
+			content.traverse(it => {
+				if (it instanceof Mesh) {
+					it.geometry.dispose();
+				}
+			});
+		});
+		this.customContents = [];
+
+		this.defaultContents.forEach((content, part) => {
+			part.setLayers(content.innerLayer, content.outerLayer);
+			if (geometry === null) {
+				part.add(...content.children);
+			} else {
+				part.remove(...content.children);
+			}
+		});
+		if (geometry === null) {
+			return;
+		}
+
+		const parts: Record<StandardBoneName, BodyPart> = {
+			head: this.head,
+			body: this.body,
+			rightArm: this.rightArm,
+			leftArm: this.leftArm,
+			rightLeg: this.rightLeg,
+			leftLeg: this.leftLeg
+		};
+		const isStandardBone = (name: string): name is StandardBoneName => Object.prototype.hasOwnProperty.call(parts, name);
+		const isLimb = (part: BodyPart | undefined) => part !== undefined && part !== this.head && part !== this.body;
+
+		const extras = new Group();
+		extras.name = "extras";
+		this.add(extras);
+		this.customContents.push(extras);
+
+		// the body part that each bone belongs to, and the outer layer of each body part
+		const owners: Map<Object3D, BodyPart> = new Map();
+		const outerLayers: Map<Object3D, Group> = new Map();
+
+		// bedrock models have their origin on the ground, which is 24 units below the skin
+		const skinOrigin = new Vector3(0, 24, 0);
+
+		buildBedrockBones(geometry, extras, (bone, parent, parentBone) => {
+			if (isStandardBone(bone.name)) {
+				const part = parts[bone.name];
+				const inner = createBedrockBone(bone, geometry, isLimb(part) ? this.layer1MaterialBiased : this.layer1Material, part.position.clone().add(skinOrigin));
+				const outer = new Group();
+				outer.position.copy(inner.position);
+				outer.rotation.copy(inner.rotation);
+				part.add(inner, outer);
+				part.setLayers(inner, outer);
+				this.customContents.push(inner, outer);
+				owners.set(inner, part);
+				outerLayers.set(inner, outer);
+				return inner;
+			}
+
+			const owner = owners.get(parent);
+			const overlay = owner !== undefined && outerLayers.has(parent) && parts[OVERLAY_BONES[bone.name]] === owner;
+			let material: Material;
+			if (owner === undefined || overlay) {
+				material = isLimb(owner) ? this.layer2MaterialBiased : this.layer2Material;
+			} else {
+				material = isLimb(owner) ? this.layer1MaterialBiased : this.layer1Material;
+			}
+
+			const origin = parentBone === null ? skinOrigin : fromBedrockPosition(parentBone.pivot);
+			const group = createBedrockBone(bone, geometry, material, origin);
+			(overlay ? outerLayers.get(parent) as Group : parent).add(group);
+			if (owner !== undefined) {
+				owners.set(group, owner);
+			}
+			return group;
+		});
+	}
 }
 
 export class CapeObject extends Group {
 
 	readonly cape: Mesh;
 
+	private readonly slices: Array<Group> = [];
+
 	constructor(texture: Texture) {
 		super();
 
@@ -330,119 +519,238 @@ export class CapeObject extends Group {
 		this.cape.position.z = .5;
 		this.add(this.cape);
 	}
+
+	/**
+	 * The hinges of the horizontal slices that the cape is made of, from top to bottom, if it is divided.
+	 * Each hinge is at the top edge of its slice, on the side of the body, and is a child of the hinge above.
+	 * Rotating a hinge around x bends the cape there.
+	 */
+	get segments(): ReadonlyArray<Object3D> {
+		return this.slices;
+	}
+
+	/**
+	 * Divides the cape into `count` horizontal slices that can bend, e.g. for cloth physics (see CapePhysics).
+	 * 0 brings back the rigid cape.
+	 */
+	setSegmentCount(count: number): void {
+		if (count === this.slices.length) {
+			return;
+		}
+		if (this.slices.length > 0) {
+			this.slices[0].removeFromParent();
+			this.slices.forEach(hinge => (hinge.children[0] as Mesh).geometry.dispose());
+			this.slices.length = 0;
+		}
+		this.cape.visible = count === 0;
+
+		const height = 16 / count;
+		for (let i = 0; i < count; i++) {
+			const box = new BoxGeometry(10, height, 1);
+			setCapeSliceUVs(box, i * height, (i + 1) * height);
+			const slice = new Mesh(box, this.cape.material);
+			slice.position.y = -height / 2;
+			slice.position.z = .5;
+
+			const hinge = new Group();
+			hinge.add(slice);
+			if (i === 0) {
+				this.add(hinge);
+			} else {
+				hinge.position.y = -height;
+				this.slices[i - 1].add(hinge);
+			}
+			this.slices.push(hinge);
+		}
+	}
+
+	/**
+	 * Unbends the cape, if it is divided.
+	 */
+	resetSegments(): void {
+		this.slices.forEach(hinge => hinge.rotation.set(0, 0, 0));
+	}
+}
+
+export interface JsonModelOptions extends JavaModelBuildOptions {
+	/**
+	 * Used to look up the models named in `parent` fields.
+	 */
+	resolveParent?: JavaModelParentResolver;
+
+	/**
+	 * If specified, the transform that the model defines for this context in `display` is applied.
+	 */
+	displayContext?: JavaModelDisplayContext;
+
+	/**
+	 * Whether to bake the cubes of each bone into one mesh per material, which greatly reduces draw calls.
+	 * Bones are kept, so they can still be animated, but the individual cubes are no longer accessible.
+	 * Default is false, which creates one mesh for every element, named after it.
+	 */
+	mergeMeshes?: boolean;
 }
 
+/**
+ * A Java block model, a Blockbench project, or a Bedrock Edition geometry file.
+ */
+export type CustomModel = JavaBlockModel | BlockbenchModel | BedrockGeometryFile;
+
+/**
+ * A Minecraft Java Edition block / item model, a Blockbench project (.bbmodel),
+ * or a Bedrock Edition geometry (.geo.json), such as an attachable.
+ *
+ * The texture is either used for every face of the model, or looked up by the textures the faces refer to:
+ * - Java block models: texture variables (e.g. "layer0" for "#layer0") and texture paths
+ * - Blockbench projects: indexes, uuids and names of textures (see `loadBlockbenchTextures`)
+ * - Bedrock geometries use a single texture. If several textures are given, the first one is used.
+ */
 export class JsonModelObject extends Group {
-	//readonly hat: Mesh;
 
-	constructor(texture: any, json: any) {
+	constructor(texture: Texture | JavaModelTextures, json: CustomModel | null | undefined, options: JsonModelOptions = {}) {
 		super();
+		const content = JsonModelObject.build(json, texture, options);
+		if (content !== null) {
+			this.add(content);
+		}
+	}
 
-		//const elements = json.elements;
-		//if (!elements.length) throw new Error("invalid json model");
+	/**
+	 * Replaces the model. The meshes and materials of the previous model are disposed,
+	 * while the textures are kept, since they are owned by the caller.
+	 * If `json` is null or undefined, the object becomes empty.
+	 *
+	 * A "modelchange" event is dispatched afterwards, so that viewers can re-render.
+	 *
+	 * @throws ModelValidationError if the model is malformed. In that case, the previous model is kept.
+	 */
+	setModel(json: CustomModel | null | undefined, texture: Texture | JavaModelTextures, options: JsonModelOptions = {}): void {
+		const content = JsonModelObject.build(json, texture, options);
+		this.clearModel();
+		if (content !== null) {
+			this.add(content);
+		}
+		this.dispatchEvent({ type: "modelchange" });
+	}
 
+	/**
+	 * @deprecated Use `setModel` instead.
+	 */
+	updateModel(json: CustomModel | null | undefined, texture: Texture | JavaModelTextures, options: JsonModelOptions = {}): void {
+		this.setModel(json, texture, options);
+	}
 
-		/*const hatBox = new BoxGeometry(10, 10, 10);
-		setUVs(hatBox, 0, 0, 5, 5, 5, 32, 32);
-		this.hat = new Mesh(hatBox, hatMaterial);
-		this.hat.position.y = -8;
-		this.hat.position.z = 0.5;
-		this.add(this.hat);*/
-		
+	/**
+	 * Removes the model, and disposes its geometries and materials.
+	 */
+	dispose(): void {
+		this.clearModel();
+	}
 
-		this.updateModel(json, texture);
+	private clearModel(): void {
+		const materials: Set<Material> = new Set();
+		this.traverse(it => {
+			if (it instanceof Mesh) {
+				it.geometry.dispose();
+				(Array.isArray(it.material) ? it.material : [it.material]).forEach(material => materials.add(material));
+			}
+		});
+		materials.forEach(material => material.dispose());
+		this.clear();
 	}
 
-	updateModel(json: any, texture: any): void {
-		if (!json || !json.elements) return;
+	private static build(json: CustomModel | null | undefined, texture: Texture | JavaModelTextures, options: JsonModelOptions): Group | null {
+		if (json === null || json === undefined) {
+			return null;
+		}
 
-		const hatMaterial = new MeshStandardMaterial({
-			map: texture,
-			side: DoubleSide,
-			transparent: true,
-			alphaTest: 1e-5
-		});
+		let content: Group;
+		if (isBlockbenchModel(json)) {
+			assertValidBlockbenchModel(json);
+			content = createBlockbenchModel(json, texture);
+
+		} else if (isBedrockGeometryFile(json)) {
+			assertValidBedrockGeometryFile(json);
+			// only the first geometry of the file is used
+			const geometry = parseBedrockGeometryFile(json)[0];
+			if (geometry === undefined) {
+				return null;
+			}
+			// Bedrock geometries have a single texture: the first one of the map, if there is any
+			const first = texture instanceof Texture ? texture : Object.values(texture)[0];
+			content = createBedrockModel(geometry, first === undefined ? null : first);
 
-		for (var i = 0; i < json.elements.length; i++) {
-			var element = json.elements[i];
-			//console.log("found element:", element);
-			var xDif = element.to[0] - element.from[0];
-			var yDif = element.to[1] - element.from[1];
-			var zDif = element.to[2] - element.from[2];
-			var xPos = element.from[0];
-			var yPos = element.from[1];
-			var zPos = element.from[2];
-			//if (xDif < 0) xPos += xDif;
-			//if (yDif < 0) yPos += yDif;
-			//if (zDif < 0) zPos += zDif;
-			//console.log(xPos, yPos, zPos);
-			//console.log("Size: ", xDif, yDif, zDif, " At: ", xPos, yPos, zPos);
-			
-			var box = new BoxGeometry(Math.abs(xDif), Math.abs(yDif), Math.abs(zDif));
-			let hXdif = 0.5*xDif;
-			let hYdif = 0.5*yDif;
-			let hZdif = 0.5*zDif;
-			box.translate(hXdif, hYdif, hZdif); // the box's origin is at the corner.
-			box.translate(xPos, yPos, zPos); // you know what I'm just gonna make the geometry centred at the origin in the bb model
-			setJsonUVs(box, element.faces);
-
-			var mesh = new Mesh(box, hatMaterial);
-
-			if (element.rotation != undefined) {
-				let angle: number = element.rotation.angle * Math.PI / 180.0;
-				let axisStr : string = element.rotation.axis;
-				let axis : Vector3;
-				let pivotAny = element.rotation.origin;
-				let pivot : Vector3 = new Vector3(pivotAny[0], pivotAny[1], pivotAny[2]);
-
-				switch (axisStr) {
-				case "x":
-					axis = new Vector3(1, 0, 0);
-					break;
-				case "y":
-					axis = new Vector3(0, 1, 0);
-					break;
-				case "z":
-					axis = new Vector3(0, 0, 1);
-					break;
-				default:
-					axis = new Vector3(0, 0, 0);
-					break;
-				}
+		} else {
+			assertValidJavaModel(json);
+
+			const model = resolveJavaModelParents(json, options.resolveParent);
+			const materials = new JavaModelMaterials(model, texture, options);
 
-				mesh.position.sub(pivot);
-				mesh.position.applyAxisAngle(axis, angle);
-				mesh.position.add(pivot);
-				
-				mesh.rotateOnAxis(axis, angle);
-
-				// if this is `angle` it's in the right place. if this is `-angle` it has the right rotation. total spain. therefore this monstrosity:
-				// mesh.rotateOnAxis(axis, angle);
-				// let cachedPos: Vector3 = new Vector3().copy(mesh.position);
-				// mesh.rotateOnAxis(axis, -2 * angle);
-				// mesh.position.copy(cachedPos);
-				// console.log("CP ", cachedPos, "MP ", mesh.position);
-
-				/*mesh.matrix.multiply(new Matrix4().makeTranslation(-pivot.x, -pivot.y, -pivot.z));
-				mesh.matrix.multiply(new Matrix4().makeRotationAxis(axis, angle));
-				mesh.matrix.multiply(new Matrix4().makeTranslation(pivot.x, pivot.y, pivot.z));*/
+			content = new Group();
+			if (options.displayContext !== undefined) {
+				content.applyMatrix4(getJavaDisplayMatrix(model, options.displayContext));
 			}
+			createJavaModelMeshes(model, materials).forEach(mesh => content.add(mesh));
+		}
 
-			/*console.log(
-				"Box Dimensions (WHD):", box.parameters.width, box.parameters.height, box.parameters.depth,
-				"Mesh Scale: ", mesh.scale.x, mesh.scale.y, mesh.scale.z,
-				" At: ", mesh.position.x, mesh.position.y, mesh.position.z);*/
-			
-			this.add(mesh);
+		if (options.mergeMeshes === true) {
+			mergeStaticMeshes(content);
 		}
+		return content;
 	}
 }
 
+/**
+ * "closed": the wings are folded on the back.
+ * "gliding": the wings are spread out, as when flying.
+ * "crouching": the wings are folded and lowered, as when sneaking.
+ */
+export type ElytraState = "closed" | "gliding" | "crouching";
+
+export const ELYTRA_STATES: ReadonlyArray<ElytraState> = ["closed", "gliding", "crouching"];
+
+/**
+ * The position and rotation of a wing, relative to the elytra.
+ */
+export interface ElytraWingPose {
+	position: Vector3Tuple;
+	rotation: Vector3Tuple;
+}
+
+/**
+ * The pose of the left wing in each state, taken from the vanilla elytra model.
+ * The right wing is its mirror image.
+ */
+export const ELYTRA_WING_POSES: Readonly<Record<ElytraState, Readonly<ElytraWingPose>>> = {
+	// the small rotation around y is to avoid z-fighting between the wings
+	"closed": { position: [5, 0, 0], rotation: [.2617994, .01, .2617994] },
+	"gliding": { position: [5, 0, 0], rotation: [.34906584, .01, Math.PI / 2] },
+	"crouching": { position: [5, -3, 0], rotation: [.6981317, -.08726646, Math.PI / 4] }
+};
+
+/**
+ * Interpolates between two wing poses, with t from 0 (`from`) to 1 (`to`).
+ */
+export function lerpElytraWingPose(from: ElytraWingPose, to: ElytraWingPose, t: number): ElytraWingPose {
+	const lerp = (a: Vector3Tuple, b: Vector3Tuple) => [0, 1, 2].map(i => a[i] + (b[i] - a[i]) * t) as Vector3Tuple;
+	return {
+		position: lerp(from.position, to.position),
+		rotation: lerp(from.rotation, to.rotation)
+	};
+}
+
 export class ElytraObject extends Group {
 
 	readonly leftWing: Group;
 	readonly rightWing: Group;
 
+	private _state: ElytraState = "closed";
+	private transitionFrom: ElytraWingPose = ELYTRA_WING_POSES.closed;
+	private transitionDuration: number = 0;
+	private transitionTime: number = 0;
+	private leftWingOverride: Partial<ElytraWingPose> | null = null;
+	private rightWingOverride: Partial<ElytraWingPose> | null = null;
+
 	constructor(texture: Texture) {
 		super();
 
@@ -474,11 +782,103 @@ export class ElytraObject extends Group {
 		this.rightWing.add(rightWingMesh);
 		this.add(this.rightWing);
 
-		this.leftWing.position.x = 5;
-		this.leftWing.rotation.x = .2617994;
-		this.leftWing.rotation.y = .01; // to avoid z-fighting
-		this.leftWing.rotation.z = .2617994;
+		this.resetPose();
+	}
+
+	/**
+	 * The state that the wings are in, or moving to.
+	 */
+	get state(): ElytraState {
+		return this._state;
+	}
+
+	set state(value: ElytraState) {
+		this.setState(value);
+	}
+
+	/**
+	 * Whether the wings are still moving to the pose of `state`.
+	 */
+	get transitioning(): boolean {
+		return this.transitionTime < this.transitionDuration;
+	}
+
+	/**
+	 * Moves the wings to the pose of a state over `duration` seconds (see `update`).
+	 * The change is immediate when the duration is 0, or when the elytra is not visible.
+	 */
+	setState(state: ElytraState, duration: number = 0.5): void {
+		this.transitionFrom = this.getStatePose();
+		this._state = state;
+		this.transitionTime = 0;
+		this.transitionDuration = this.visible ? Math.max(0, duration) : 0;
+		this.resetPose();
+	}
+
+	/**
+	 * The pose of the left wing given by the state, halfway through a transition if there is one.
+	 * Overrides are not included.
+	 */
+	getStatePose(): ElytraWingPose {
+		const to = ELYTRA_WING_POSES[this._state];
+		if (!this.transitioning) {
+			return { position: [...to.position], rotation: [...to.rotation] };
+		}
+		const t = this.transitionTime / this.transitionDuration;
+		return lerpElytraWingPose(this.transitionFrom, to, t * t * (3 - 2 * t));
+	}
+
+	/**
+	 * Advances the transition between states by `delta` seconds.
+	 * The wings are only moved during a transition, so they can be posed freely otherwise.
+	 */
+	update(delta: number): void {
+		if (this.transitioning) {
+			this.transitionTime = Math.min(this.transitionTime + delta, this.transitionDuration);
+			this.resetPose();
+		}
+	}
+
+	/**
+	 * Replaces parts of the pose of one wing, whatever the state. Pass null to remove the override.
+	 *
+	 * Unlike the poses of the states, the pose of the right wing is not mirrored from the left one,
+	 * so the values are the ones of `rightWing` itself.
+	 */
+	setWingOverride(wing: "left" | "right", override: Partial<ElytraWingPose> | null): void {
+		if (wing === "left") {
+			this.leftWingOverride = override;
+		} else {
+			this.rightWingOverride = override;
+		}
+		this.resetPose();
+	}
+
+	/**
+	 * Poses the left wing and mirrors it to the right wing, then applies the overrides.
+	 */
+	applyWingPose(pose: ElytraWingPose): void {
+		this.leftWing.position.fromArray(pose.position);
+		this.leftWing.rotation.fromArray(pose.rotation);
 		this.updateRightWing();
+
+		const applyOverride = (wing: Group, override: Partial<ElytraWingPose> | null) => {
+			if (override?.position !== undefined) {
+				wing.position.fromArray(override.position);
+			}
+			if (override?.rotation !== undefined) {
+				wing.rotation.fromArray(override.rotation);
+			}
+		};
+		applyOverride(this.leftWing, this.leftWingOverride);
+		applyOverride(this.rightWing, this.rightWingOverride);
+	}
+
+	/**
+	 * Puts the wings back in the pose of the current state.
+	 */
+	resetPose(): void {
+		this.applyWingPose(this.getStatePose());
 	}
 
 	/**
@@ -488,6 +888,7 @@ export class ElytraObject extends Group {
 	updateRightWing(): void {
 		this.rightWing.position.x = -this.leftWing.position.x;
 		this.rightWing.position.y = this.leftWing.position.y;
+		this.rightWing.position.z = this.leftWing.position.z;
 		this.rightWing.rotation.x = this.leftWing.rotation.x;
 		this.rightWing.rotation.y = -this.leftWing.rotation.y;
 		this.rightWing.rotation.z = -this.leftWing.rotation.z;
@@ -523,39 +924,37 @@ export class EarsObject extends Group {
 
 export type BackEquipment = "cape" | "elytra";
 
+export type AccessoryType = "hat" | "shoulderBuddy";
+
+/**
+ * A custom model worn by the player, such as a hat or a shoulder buddy.
+ */
+export interface Accessory {
+	readonly id: string;
+	readonly type: AccessoryType;
+	readonly model: JsonModelObject;
+
+	/**
+	 * The attachment point on the skin that the accessory follows.
+	 */
+	readonly attachmentPoint: AttachmentPointName;
+
+	/**
+	 * The texture owned by this accessory. It is disposed when the accessory is removed.
+	 */
+	readonly texture: Texture;
+}
+
 export class PlayerObject extends Group {
 
 	readonly skin: SkinObject;
 	readonly cape: CapeObject;
 	readonly elytra: ElytraObject;
 	readonly ears: EarsObject;
-	hat: JsonModelObject;
-	hat1: JsonModelObject | null;
-	hat2: JsonModelObject | null;
-	hat3: JsonModelObject | null;
-	hat4: JsonModelObject | null;
-	hat5: JsonModelObject | null;
-	hat6: JsonModelObject | null;
-	hat7: JsonModelObject | null;
-	hat8: JsonModelObject | null;
-	hat9: JsonModelObject | null;
-
-	
-	shoulderBuddy1: JsonModelObject | null;
-	shoulderBuddy2: JsonModelObject | null;
-	shoulderBuddy3: JsonModelObject | null;
-	shoulderBuddy4: JsonModelObject | null;
-	shoulderBuddy5: JsonModelObject | null;
-	shoulderBuddy6: JsonModelObject | null;
-	shoulderBuddy7: JsonModelObject | null;
-	shoulderBuddy8: JsonModelObject | null;
-	shoulderBuddy9: JsonModelObject | null;
-
-	shoulderBuddy: JsonModelObject;
-	hats: any;
-	shoulderBuddies: any;
-
-	constructor(skinTexture: Texture, capeTexture: Texture, hatTexture: Texture, hatModel: any, shoulderBuddyTexture: Texture, shoulderBuddyModel: any, earsTexture: Texture, hatCanvases: any, shoulderBuddyCanvases: any) {
+
+	private readonly accessoryMap: Map<string, Accessory> = new Map();
+
+	constructor(skinTexture: Texture, capeTexture: Texture, earsTexture: Texture) {
 		super();
 
 		this.skin = new SkinObject(skinTexture);
@@ -567,7 +966,6 @@ export class PlayerObject extends Group {
 		this.cape.name = "cape";
 		this.cape.position.y = 8;
 		this.cape.position.z = -2;
-		this.cape.rotation.x = 10.8 * Math.PI / 180;
 		this.cape.rotation.y = Math.PI;
 		this.add(this.cape);
 
@@ -585,253 +983,24 @@ export class PlayerObject extends Group {
 		this.ears.visible = false;
 		this.skin.head.add(this.ears);
 
-		this.hat = new JsonModelObject(hatTexture, hatModel);
-		this.hat.name = "hat";
-		this.hat.position.y = 8;
-		this.hat.position.x = 8;
-		this.hat.position.z = 8;
-		this.hat.rotation.y = Math.PI;
-		this.skin.head.add(this.hat);
-
-		this.hat1 = null;
-		this.hat2 = null;
-		this.hat3 = null;
-		this.hat4 = null;
-		this.hat5 = null;
-		this.hat6 = null;
-		this.hat7 = null;
-		this.hat8 = null;
-		this.hat9 = null;
-
-		if (hatCanvases[0] != null) {
-			this.hat1 = new JsonModelObject(hatTexture, hatCanvases[0].model);
-			this.hat1.name = "hat1";
-			this.hat1.position.y = 8;
-			this.hat1.position.x = 8;
-			this.hat1.position.z = 8;
-			this.hat1.rotation.y = Math.PI;
-			this.skin.head.add(this.hat1);
-		}
-
-		if (hatCanvases[1] != null) {
-			this.hat2 = new JsonModelObject(hatTexture, hatCanvases[1].model);
-			this.hat2.name = "hat2";
-			this.hat2.position.y = 8;
-			this.hat2.position.x = 8;
-			this.hat2.position.z = 8;
-			this.hat2.rotation.y = Math.PI;
-			this.skin.head.add(this.hat2);
-		}
-
-		if (hatCanvases[2] != null) {
-			this.hat3 = new JsonModelObject(hatTexture, hatCanvases[2].model);
-			this.hat3.name = "hat3";
-			this.hat3.position.y = 8;
-			this.hat3.position.x = 8;
-			this.hat3.position.z = 8;
-			this.hat3.rotation.y = Math.PI;
-			this.skin.head.add(this.hat3);
-		}
-
-		if (hatCanvases[3] != null) {
-			this.hat4 = new JsonModelObject(hatTexture, hatCanvases[3].model);
-			this.hat4.name = "hat4";
-			this.hat4.position.y = 8;
-			this.hat4.position.x = 8;
-			this.hat4.position.z = 8;
-			this.hat4.rotation.y = Math.PI;
-			this.skin.head.add(this.hat4);
-		}
-
-		if (hatCanvases[4] != null) {
-			this.hat5 = new JsonModelObject(hatTexture, hatCanvases[4].model);
-			this.hat5.name = "hat5";
-			this.hat5.position.y = 8;
-			this.hat5.position.x = 8;
-			this.hat5.position.z = 8;
-			this.hat5.rotation.y = Math.PI;
-			this.skin.head.add(this.hat5);
-		}
-
-		if (hatCanvases[5] != null) {
-			this.hat6 = new JsonModelObject(hatTexture, hatCanvases[5].model);
-			this.hat6.name = "hat6";
-			this.hat6.position.y = 8;
-			this.hat6.position.x = 8;
-			this.hat6.position.z = 8;
-			this.hat6.rotation.y = Math.PI;
-			this.skin.head.add(this.hat6);
-		}
-
-		if (hatCanvases[6] != null) {
-			this.hat7 = new JsonModelObject(hatTexture, hatCanvases[6].model);
-			this.hat7.name = "hat7";
-			this.hat7.position.y = 8;
-			this.hat7.position.x = 8;
-			this.hat7.position.z = 8;
-			this.hat7.rotation.y = Math.PI;
-			this.skin.head.add(this.hat7);
-		}
-
-		if (hatCanvases[7] != null) {
-			this.hat8 = new JsonModelObject(hatTexture, hatCanvases[7].model);
-			this.hat8.name = "hat8";
-			this.hat8.position.y = 8;
-			this.hat8.position.x = 8;
-			this.hat8.position.z = 8;
-			this.hat8.rotation.y = Math.PI;
-			this.skin.head.add(this.hat8);
-		}
-
-		if (hatCanvases[8] != null) {
-			this.hat8 = new JsonModelObject(hatTexture, hatCanvases[8].model);
-			this.hat8.name = "hat8";
-			this.hat8.position.y = 8;
-			this.hat8.position.x = 8;
-			this.hat8.position.z = 8;
-			this.hat8.rotation.y = Math.PI;
-			this.skin.head.add(this.hat8);
-		}
-
-
-
-
-
-		this.shoulderBuddy1 = null;
-		this.shoulderBuddy2 = null;
-		this.shoulderBuddy3 = null;
-		this.shoulderBuddy4 = null;
-		this.shoulderBuddy5 = null;
-		this.shoulderBuddy6 = null;
-		this.shoulderBuddy7 = null;
-		this.shoulderBuddy8 = null;
-		this.shoulderBuddy9 = null;
-
-		if (shoulderBuddyCanvases[0] != null) {
-			this.shoulderBuddy1 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[0].model);
-			this.shoulderBuddy1.name = "shoulderBuddy1";
-			this.shoulderBuddy1.position.y = 7.5;
-			this.shoulderBuddy1.position.x = 13.8;
-			this.shoulderBuddy1.position.z = 8;
-			this.shoulderBuddy1.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy1);
-		}
-
-		if (shoulderBuddyCanvases[1] != null) {
-			this.shoulderBuddy2 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[1].model);
-			this.shoulderBuddy2.name = "shoulderBuddy2";
-			this.shoulderBuddy2.position.y = 7.5;
-			this.shoulderBuddy2.position.x = 13.8;
-			this.shoulderBuddy2.position.z = 8;
-			this.shoulderBuddy2.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy2);
-		}
-
-		if (shoulderBuddyCanvases[2] != null) {
-			this.shoulderBuddy3 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[2].model);
-			this.shoulderBuddy3.name = "shoulderBuddy3";
-			this.shoulderBuddy3.position.y = 7.5;
-			this.shoulderBuddy3.position.x = 13.8;
-			this.shoulderBuddy3.position.z = 8;
-			this.shoulderBuddy3.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy3);
-		}
-
-		if (shoulderBuddyCanvases[3] != null) {
-			this.shoulderBuddy4 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[3].model);
-			this.shoulderBuddy4.name = "shoulderBuddy4";
-			this.shoulderBuddy4.position.y = 7.5;
-			this.shoulderBuddy4.position.x = 13.8;
-			this.shoulderBuddy4.position.z = 8;
-			this.shoulderBuddy4.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy4);
-		}
-
-		if (shoulderBuddyCanvases[4] != null) {
-			this.shoulderBuddy5 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[4].model);
-			this.shoulderBuddy5.name = "shoulderBuddy5";
-			this.shoulderBuddy5.position.y = 7.5;
-			this.shoulderBuddy5.position.x = 13.8;
-			this.shoulderBuddy5.position.z = 8;
-			this.shoulderBuddy5.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy5);
-		}
-
-		if (shoulderBuddyCanvases[5] != null) {
-			this.shoulderBuddy6 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[5].model);
-			this.shoulderBuddy6.name = "shoulderBuddy6";
-			this.shoulderBuddy6.position.y = 7.5;
-			this.shoulderBuddy6.position.x = 13.8;
-			this.shoulderBuddy6.position.z = 8;
-			this.shoulderBuddy6.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy6);
-		}
-
-		if (shoulderBuddyCanvases[6] != null) {
-			this.shoulderBuddy7 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[6].model);
-			this.shoulderBuddy7.name = "shoulderBuddy7";
-			this.shoulderBuddy7.position.y = 7.5;
-			this.shoulderBuddy7.position.x = 13.8;
-			this.shoulderBuddy7.position.z = 8;
-			this.shoulderBuddy7.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy7);
-		}
-
-		if (shoulderBuddyCanvases[7] != null) {
-			this.shoulderBuddy8 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[7].model);
-			this.shoulderBuddy8.name = "shoulderBuddy8";
-			this.shoulderBuddy8.position.y = 7.5;
-			this.shoulderBuddy8.position.x = 13.8;
-			this.shoulderBuddy8.position.z = 8;
-			this.shoulderBuddy8.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy8);
-		}
-
-		if (shoulderBuddyCanvases[8] != null) {
-			this.shoulderBuddy8 = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyCanvases[8].model);
-			this.shoulderBuddy8.name = "shoulderBuddy8";
-			this.shoulderBuddy8.position.y = 7.5;
-			this.shoulderBuddy8.position.x = 13.8;
-			this.shoulderBuddy8.position.z = 8;
-			this.shoulderBuddy8.rotation.y = Math.PI;
-			this.add(this.shoulderBuddy8);
-		}
-
-
-
-
-
-
-		this.shoulderBuddy = new JsonModelObject(shoulderBuddyTexture, shoulderBuddyModel);
-		this.shoulderBuddy.name = "shoulderbuddy";
-		this.shoulderBuddy.position.y = 7.5;
-		this.shoulderBuddy.position.x = 13.8;
-		this.shoulderBuddy.position.z = 8;
-		//this.hat.rotation.x = 10.8 * Math.PI / 180;
-		this.shoulderBuddy.rotation.y = Math.PI;
-		this.add(this.shoulderBuddy);
-		
-		/*this.hats = [];
-		for (var i = 0; i < hatCanvases.length; i++) {
-			this.hats[i] = new JsonModelObject(hatCanvases[i].texture, hatCanvases[i].json);
-			this.hats[i].name = "hat-" + i;
-			this.hats[i].position.y = 7.5;
-			this.hats[i].position.x = 13.8;
-			this.hats[i].position.z = 8;
-			this.hats[i].rotation.y = Math.PI;
-			this.skin.head.add(this.hats[i]);
-		}
+		this.resetPose();
+	}
 
-		this.shoulderBuddies = [];
-		for (var i = 0; i < shoulderBuddyCanvases.length; i++) {
-			this.shoulderBuddies[0] = new JsonModelObject(shoulderBuddyCanvases[i].texture, shoulderBuddyCanvases[i].json);
-			this.shoulderBuddies[0].name = "hat-" + i;
-			this.shoulderBuddies[0].position.y = 7.5;
-			this.shoulderBuddies[0].position.x = 13.8;
-			this.shoulderBuddies[0].position.z = 8;
-			this.shoulderBuddies[0].rotation.y = Math.PI;
-			this.add(this.shoulderBuddies[0]);
-		}*/
+	/**
+	 * Puts the player back in the standing pose, undoing the changes made by animations.
+	 */
+	resetPose(): void {
+		this.position.set(0, 0, 0);
+		this.rotation.set(0, 0, 0);
+		this.skin.resetPose();
+		this.cape.position.set(0, 8, -2);
+		this.cape.rotation.set(10.8 * Math.PI / 180, Math.PI, 0);
+		this.cape.resetSegments();
+		this.elytra.position.set(0, 8, -2);
+		this.elytra.rotation.set(0, 0, 0);
+		this.elytra.resetPose();
+		this.ears.position.set(0, 10, 2 / 3);
+		this.ears.rotation.set(0, 0, 0);
 	}
 
 	get backEquipment(): BackEquipment | null {
@@ -844,16 +1013,70 @@ export class PlayerObject extends Group {
 		}
 	}
 
+	/**
+	 * Taking the elytra off closes its wings, so that it is closed when put back on.
+	 */
 	set backEquipment(value: BackEquipment | null) {
 		this.cape.visible = value === "cape";
 		this.elytra.visible = value === "elytra";
+		if (value !== "elytra") {
+			this.elytra.setState("closed", 0);
+		}
+	}
+
+	/**
+	 * All accessories currently worn by the player, in the order they were added.
+	 */
+	get accessories(): Array<Accessory> {
+		return Array.from(this.accessoryMap.values());
+	}
+
+	/**
+	 * Adds an accessory to the player.
+	 * If an accessory with the same id exists, it is removed first.
+	 *
+	 * The bottom center of the model's block, i.e. (8, 0, 8), is placed at the attachment point.
+	 * By default, hats are attached to the head, and shoulder buddies are attached to the left shoulder.
+	 * If `modelTextures` is given, the model is built with it instead of `texture`,
+	 * e.g. to use the textures embedded in a Blockbench project.
+	 *
+	 * @throws ModelValidationError if the model is malformed
+	 */
+	addAccessory(id: string, type: AccessoryType, texture: Texture, model: CustomModel, attachmentPoint?: AttachmentPointName, modelTextures?: JavaModelTextures): Accessory {
+		if (attachmentPoint === undefined) {
+			attachmentPoint = type === "hat" ? "head" : "leftShoulder";
+		}
+
+		// build the model first, so that the existing accessory is kept if the model is malformed
+		const object = new JsonModelObject(modelTextures === undefined ? texture : modelTextures, model);
+		this.removeAccessory(id);
+		object.name = id;
+		object.position.set(8, 0, 8);
+		object.rotation.y = Math.PI;
+		this.skin.attachmentPoints[attachmentPoint].add(object);
+
+		const accessory: Accessory = { id, type, model: object, attachmentPoint, texture };
+		this.accessoryMap.set(id, accessory);
+		return accessory;
 	}
 
-	set setHat(value: Texture | null) {
-		this.hat.visible = true;
+	/**
+	 * Removes an accessory from the player, and disposes its model and texture.
+	 * @returns whether the accessory existed
+	 */
+	removeAccessory(id: string): boolean {
+		const accessory = this.accessoryMap.get(id);
+		if (accessory === undefined) {
+			return false;
+		}
+		accessory.model.removeFromParent();
+		accessory.model.dispose();
+		accessory.texture.dispose();
+		this.accessoryMap.delete(id);
+		return true;
 	}
 
-	set setShoulderBuddy(value: Texture | null) {
-		this.shoulderBuddy.visible = true;
+	getAccessory(id: string): Accessory | undefined {
+		return this.accessoryMap.get(id);
 	}
 }
@@ -1,5 +1,5 @@
 import { SkinViewer } from "./viewer.js";
-import { Vector3 } from "three";
+import { Camera, Vector3 } from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 
 export function createOrbitControls(skinViewer: SkinViewer): OrbitControls {
@@ -12,5 +12,17 @@ export function createOrbitControls(skinViewer: SkinViewer): OrbitControls {
 	control.maxDistance = 256;
 	control.update();
 
+	// follow the camera when the projection changes
+	const onCameraChange = (camera: Camera) => {
+		control.object = camera;
+		control.update();
+	};
+	skinViewer.cameraListeners.add(onCameraChange);
+	const dispose = control.dispose.bind(control);
+	control.dispose = () => {
+		skinViewer.cameraListeners.delete(onCameraChange);
+		dispose();
+	};
+
 	return control;
 }
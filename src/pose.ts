@@ -0,0 +1,201 @@
+import { Object3D, Vector3Tuple } from "three";
+import { PlayerObject } from "./model.js";
+import { ModelValidationIssue, ModelValidator, PoseValidationError } from "./validation.js";
+
+/**
+ * The objects of a player that a pose can move.
+ *
+ * "root" is the player itself. "elytra" moves both wings together, and "ears" moves both ears.
+ */
+export type PoseBoneName =
+	"root" |
+	"head" | "body" | "rightArm" | "leftArm" | "rightLeg" | "leftLeg" |
+	"cape" |
+	"elytra" | "leftWing" | "rightWing" |
+	"ears";
+
+export const POSE_BONE_NAMES: ReadonlyArray<PoseBoneName> = [
+	"root",
+	"head", "body", "rightArm", "leftArm", "rightLeg", "leftLeg",
+	"cape",
+	"elytra", "leftWing", "rightWing",
+	"ears"
+];
+
+/**
+ * The transform of a bone, relative to its parent.
+ */
+export interface BoneTransform {
+	position?: Vector3Tuple;
+
+	/**
+	 * Euler angles in radians, in XYZ order.
+	 */
+	rotation?: Vector3Tuple;
+}
+
+/**
+ * The positions and rotations of the bones of a player.
+ * This is plain data, so it can be stored with `JSON.stringify` and read back with `poseFromJSON`.
+ *
+ * A pose may leave out bones, or the position or the rotation of a bone.
+ * Those are not changed when the pose is applied.
+ */
+export type Pose = {
+	[bone in PoseBoneName]?: BoneTransform;
+};
+
+export function getPoseBones(player: PlayerObject): Record<PoseBoneName, Object3D> {
+	const skin = player.skin;
+	return {
+		root: player,
+		head: skin.head,
+		body: skin.body,
+		rightArm: skin.rightArm,
+		leftArm: skin.leftArm,
+		rightLeg: skin.rightLeg,
+		leftLeg: skin.leftLeg,
+		cape: player.cape,
+		elytra: player.elytra,
+		leftWing: player.elytra.leftWing,
+		rightWing: player.elytra.rightWing,
+		ears: player.ears
+	};
+}
+
+/**
+ * Records the current pose of every bone.
+ */
+export function capturePose(player: PlayerObject): Pose {
+	const bones = getPoseBones(player);
+	const pose: Pose = {};
+	POSE_BONE_NAMES.forEach(name => {
+		const bone = bones[name];
+		pose[name] = {
+			position: bone.position.toArray(),
+			rotation: [bone.rotation.x, bone.rotation.y, bone.rotation.z]
+		};
+	});
+	return pose;
+}
+
+/**
+ * Moves the bones of the player as described by the pose.
+ * Bones that are not in the pose keep their transforms, so to show a built-in pose regardless of
+ * what the player was doing, call `player.resetPose()` first.
+ */
+export function applyPose(player: PlayerObject, pose: Pose): void {
+	const bones = getPoseBones(player);
+	POSE_BONE_NAMES.forEach(name => {
+		const transform = pose[name];
+		if (transform === undefined) {
+			return;
+		}
+		if (transform.position !== undefined) {
+			bones[name].position.fromArray(transform.position);
+		}
+		if (transform.rotation !== undefined) {
+			bones[name].rotation.set(transform.rotation[0], transform.rotation[1], transform.rotation[2]);
+		}
+	});
+}
+
+/**
+ * Checks the structure of a pose read from JSON.
+ * @returns every problem found, or an empty array if the pose is valid
+ */
+export function validatePose(json: unknown): Array<ModelValidationIssue> {
+	const validator = new ModelValidator();
+	const child = ModelValidator.child;
+	if (!validator.isObject(json, "")) {
+		return validator.issues;
+	}
+	Object.keys(json).forEach(key => {
+		if (!validator.isOneOf(key, POSE_BONE_NAMES, key)) {
+			return;
+		}
+		const transform = json[key];
+		if (!validator.isObject(transform, key)) {
+			return;
+		}
+		if (transform.position !== undefined) {
+			validator.isVector(transform.position, 3, child(key, "position"));
+		}
+		if (transform.rotation !== undefined) {
+			validator.isVector(transform.rotation, 3, child(key, "rotation"));
+		}
+	});
+	return validator.issues;
+}
+
+/**
+ * Reads a pose from parsed JSON, such as the result of `JSON.parse(JSON.stringify(pose))`.
+ * The returned pose is a copy, so it does not share arrays with `json`.
+ *
+ * @throws PoseValidationError if the pose is malformed
+ */
+export function poseFromJSON(json: unknown): Pose {
+	const issues = validatePose(json);
+	if (issues.length > 0) {
+		throw new PoseValidationError(issues);
+	}
+	const source = json as Pose;
+	const pose: Pose = {};
+	POSE_BONE_NAMES.forEach(name => {
+		const transform = source[name];
+		if (transform === undefined) {
+			return;
+		}
+		const copy: BoneTransform = {};
+		if (transform.position !== undefined) {
+			copy.position = [...transform.position];
+		}
+		if (transform.rotation !== undefined) {
+			copy.rotation = [...transform.rotation];
+		}
+		pose[name] = copy;
+	});
+	return pose;
+}
+
+export type PoseName = "wave" | "sit" | "crouch" | "salute" | "t-pose";
+
+/**
+ * Built-in poses. They only describe what differs from the standing pose (see `PlayerObject.resetPose`),
+ * so they should be applied after resetting the pose.
+ */
+export const POSES: Readonly<Record<PoseName, Pose>> = {
+	"wave": {
+		head: { rotation: [0, 0, -0.1] },
+		rightArm: { rotation: [0, 0, -2.6] },
+		leftArm: { rotation: [0, 0, 0.06] }
+	},
+	"sit": {
+		// sitting on the ground: the hips are lowered to the height of the legs' thickness
+		root: { position: [0, -10, 0] },
+		rightArm: { rotation: [-0.63, 0, -0.1] },
+		leftArm: { rotation: [-0.63, 0, 0.1] },
+		rightLeg: { rotation: [-Math.PI / 2, 0, -0.1] },
+		leftLeg: { rotation: [-Math.PI / 2, 0, 0.1] },
+		cape: { rotation: [0.6, Math.PI, 0] }
+	},
+	"crouch": {
+		// the body leans forward around its center, and everything attached to it follows
+		root: { position: [0, -0.7, 0] },
+		body: { rotation: [0.5, 0, 0] },
+		head: { position: [0, -0.7, 2.9] },
+		rightArm: { position: [-5, -2.5, 1.9], rotation: [0.4, 0, -0.06] },
+		leftArm: { position: [5, -2.5, 1.9], rotation: [0.4, 0, 0.06] },
+		rightLeg: { position: [-1.9, -11.3, -3] },
+		leftLeg: { position: [1.9, -11.3, -3] },
+		cape: { position: [0, 8.2, 1.1], rotation: [0.7, Math.PI, 0] },
+		elytra: { position: [0, 8.2, 1.1], rotation: [0.5, 0, 0] }
+	},
+	"salute": {
+		rightArm: { rotation: [-2.5, 0, 0.4] }
+	},
+	"t-pose": {
+		rightArm: { rotation: [0, 0, -Math.PI / 2] },
+		leftArm: { rotation: [0, 0, Math.PI / 2] }
+	}
+};
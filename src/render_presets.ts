@@ -0,0 +1,113 @@
+import { Vector2Tuple, Vector3Tuple } from "three";
+import { CameraProjection } from "./viewer.js";
+
+export type RenderPresetName = "head" | "bust" | "body-front" | "body-back" | "isometric-head";
+
+/**
+ * The camera, framing, pose and lighting of a standard render.
+ *
+ * Positions are in the coordinates of the player: its feet are at y = -16, the top of its head is at y = 16,
+ * and it faces +z.
+ */
+export interface RenderPreset {
+	/**
+	 * The direction from the framed region to the camera. It does not need to be normalized.
+	 */
+	direction: Vector3Tuple;
+
+	/**
+	 * The center of the framed region.
+	 */
+	target: Vector3Tuple;
+
+	/**
+	 * The width and height of the framed region. The region is fit into the viewer, keeping its aspect ratio.
+	 */
+	size: Vector2Tuple;
+
+	/**
+	 * Camera vertical field of view, in degrees. It only affects the perspective camera.
+	 * Small values give a flat look, with little perspective distortion.
+	 */
+	fov: number;
+
+	/**
+	 * The projection of the camera. If unspecified, the current projection is kept.
+	 */
+	projection?: CameraProjection;
+
+	/**
+	 * The intensity of `SkinViewer.globalLight`.
+	 * When it is 1 and `cameraLight` is 0, the textures are rendered with their exact colors.
+	 */
+	globalLight: number;
+
+	/**
+	 * The intensity of `SkinViewer.cameraLight`.
+	 */
+	cameraLight: number;
+
+	/**
+	 * The position of `SkinViewer.cameraLight` relative to the camera. Default is [0, 0, 0].
+	 */
+	cameraLightPosition?: Vector3Tuple;
+
+	/**
+	 * Whether to put the player in the standing pose. Default is true.
+	 */
+	resetPose?: boolean;
+}
+
+// the angle between the view direction and the ground in an isometric projection
+const ISOMETRIC_ELEVATION = Math.atan(1 / Math.SQRT2);
+
+export const RENDER_PRESETS: Readonly<Record<RenderPresetName, Readonly<RenderPreset>>> = {
+	"head": {
+		direction: [0, 0, 1],
+		target: [0, 12, 0],
+		size: [10, 10],
+		fov: 10,
+		projection: "orthographic",
+		globalLight: 1,
+		cameraLight: 0
+	},
+	"bust": {
+		direction: [0, 0, 1],
+		target: [0, 7.5, 0],
+		size: [17, 18],
+		fov: 10,
+		projection: "orthographic",
+		globalLight: 1,
+		cameraLight: 0
+	},
+	"body-front": {
+		direction: [0, 0, 1],
+		target: [0, 0, 0],
+		size: [17, 34],
+		fov: 10,
+		projection: "orthographic",
+		globalLight: 1,
+		cameraLight: 0
+	},
+	"body-back": {
+		direction: [0, 0, -1],
+		target: [0, 0, 0],
+		size: [17, 34],
+		fov: 10,
+		projection: "orthographic",
+		globalLight: 1,
+		cameraLight: 0
+	},
+	"isometric-head": {
+		direction: [Math.SQRT1_2 * Math.cos(ISOMETRIC_ELEVATION), Math.sin(ISOMETRIC_ELEVATION), Math.SQRT1_2 * Math.cos(ISOMETRIC_ELEVATION)],
+		target: [0, 12, 0],
+		// the silhouette of a cube with edges of 9 is 9 * sqrt(2) wide, and 9 * 2 * sqrt(2/3) high
+		size: [13.5, 15.5],
+		fov: 10,
+		projection: "orthographic",
+		globalLight: 0.5,
+		cameraLight: 0.6,
+		// light from the top left, so that the three visible faces have different shades
+		cameraLightPosition: [-60, 80, 0]
+	}
+};
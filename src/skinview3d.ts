@@ -1,5 +1,19 @@
 export * from "./model.js";
+export * from "./java_model.js";
+export * from "./bbmodel.js";
+export * from "./bedrock_model.js";
+export * from "./bbmodel_animation.js";
+export * from "./merge_meshes.js";
+export * from "./validation.js";
 export * from "./viewer.js";
+export * from "./render_presets.js";
+export * from "./software_renderer.js";
+export * from "./image_encoders.js";
 export * from "./orbit_controls.js";
+export * from "./pose.js";
 export * from "./animation.js";
+export * from "./keyframe_animation.js";
+export * from "./animation_modifiers.js";
+export * from "./look_at_animation.js";
+export * from "./cape_physics.js";
 export * from "./fxaa.js";
@@ -0,0 +1,471 @@
+import { TextureCanvas } from "skinview-utils";
+import { AmbientLight, BackSide, BufferGeometry, Camera, Color, DirectionalLight, DoubleSide, Material, Matrix4, Mesh, MeshBasicMaterial, MeshStandardMaterial, Object3D, PointLight, Scene, Texture, Vector2, Vector3, Vector4 } from "three";
+
+export interface SoftwareRendererParameters {
+	/**
+	 * The canvas to present the images on, using its 2D context.
+	 * If the canvas has no 2D context, the images are only kept in memory (see `readPixels`).
+	 */
+	canvas: HTMLCanvasElement | OffscreenCanvas;
+
+	/**
+	 * Whether the image has an alpha channel. Default is true.
+	 * If false, the areas without a background are black.
+	 */
+	alpha?: boolean;
+
+	/**
+	 * Creates canvases to read the pixels of textures that are not canvases, such as images.
+	 */
+	createCanvas?: () => TextureCanvas;
+}
+
+/**
+ * Pixels in the same layout as ImageData: RGBA, top-down, straight alpha.
+ */
+export interface PixelBuffer {
+	readonly data: Uint8ClampedArray;
+	readonly width: number;
+	readonly height: number;
+}
+
+interface TexturePixels extends PixelBuffer {
+	readonly version: number;
+}
+
+interface Lights {
+	readonly ambient: Color;
+	readonly points: Array<{ readonly position: Vector3; readonly color: Color }>;
+	readonly directions: Array<{ readonly direction: Vector3; readonly color: Color }>;
+}
+
+interface ProjectedVertex {
+	readonly x: number;
+	readonly y: number;
+	readonly z: number;
+	readonly invW: number;
+	readonly u: number;
+	readonly v: number;
+}
+
+type CanvasContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface SizedImage {
+	readonly width: number;
+	readonly height: number;
+}
+
+function isSizedImage(image: unknown): image is SizedImage {
+	if (typeof image !== "object" || image === null) {
+		return false;
+	}
+	const { width, height } = image as Partial<SizedImage>;
+	return typeof width === "number" && width > 0 && typeof height === "number" && height > 0;
+}
+
+/**
+ * ImageData, or the image of a DataTexture.
+ */
+function hasPixelData(image: SizedImage): image is SizedImage & { readonly data: ArrayLike<number> } {
+	const data = (image as { data?: unknown }).data;
+	return typeof data === "object" && data !== null && typeof (data as ArrayLike<number>).length === "number";
+}
+
+function isCanvas(image: SizedImage): image is TextureCanvas {
+	return typeof (image as { getContext?: unknown }).getContext === "function";
+}
+
+function hasTextureMap(material: Material): material is MeshStandardMaterial | MeshBasicMaterial {
+	return material instanceof MeshStandardMaterial || material instanceof MeshBasicMaterial;
+}
+
+function isVisible(object: Object3D): boolean {
+	for (let it: Object3D | null = object; it !== null; it = it.parent) {
+		if (!it.visible) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * A renderer that rasterizes meshes on the CPU, for environments without WebGL.
+ *
+ * It implements the subset of WebGLRenderer that SkinViewer needs, and the subset of three.js that
+ * skinview3d models use: textured triangles with nearest filtering, alpha test and blending,
+ * face culling, depth testing, and flat shading with ambient, point and directional lights.
+ * Post processing, shadows and textured backgrounds are not supported.
+ *
+ * The renderer does not depend on a GPU, so it can be used in unit tests.
+ */
+export class SoftwareRenderer {
+	readonly domElement: HTMLCanvasElement;
+
+	private readonly context: CanvasContext2D | null;
+	private readonly alpha: boolean;
+	private readonly createCanvas: (() => TextureCanvas) | undefined;
+	private readonly textures: Map<Texture, TexturePixels> = new Map();
+
+	private width: number;
+	private height: number;
+	private pixelRatio = 1;
+	private color: Uint8ClampedArray = new Uint8ClampedArray(0);
+	private depth: Float32Array = new Float32Array(0);
+
+	constructor(parameters: SoftwareRendererParameters) {
+		// three.js also types canvases as HTMLCanvasElement, even if they are OffscreenCanvas
+		this.domElement = parameters.canvas as HTMLCanvasElement;
+		this.context = typeof parameters.canvas.getContext === "function" ?
+			parameters.canvas.getContext("2d") as CanvasContext2D | null :
+			null;
+		this.alpha = parameters.alpha !== false;
+		this.createCanvas = parameters.createCanvas;
+		this.width = parameters.canvas.width;
+		this.height = parameters.canvas.height;
+		this.allocate();
+	}
+
+	getPixelRatio(): number {
+		return this.pixelRatio;
+	}
+
+	setPixelRatio(value: number): void {
+		this.pixelRatio = value;
+		this.setSize(this.width, this.height, false);
+	}
+
+	getSize(target: Vector2): Vector2 {
+		return target.set(this.width, this.height);
+	}
+
+	setSize(width: number, height: number, updateStyle = true): void {
+		this.width = width;
+		this.height = height;
+		this.domElement.width = Math.floor(width * this.pixelRatio);
+		this.domElement.height = Math.floor(height * this.pixelRatio);
+		if (updateStyle && "style" in this.domElement) {
+			this.domElement.style.width = `${width}px`;
+			this.domElement.style.height = `${height}px`;
+		}
+		this.allocate();
+	}
+
+	/**
+	 * Returns the pixels of the last rendered image. The buffer is reused by the next render.
+	 */
+	readPixels(): PixelBuffer {
+		return {
+			data: this.color,
+			width: Math.floor(this.width * this.pixelRatio),
+			height: Math.floor(this.height * this.pixelRatio)
+		};
+	}
+
+	render(scene: Scene, camera: Camera): void {
+		if (scene.autoUpdate) {
+			scene.updateMatrixWorld();
+		}
+		if (camera.parent === null) {
+			camera.updateMatrixWorld();
+		}
+
+		this.clear(scene);
+
+		const lights = this.collectLights(scene);
+		const opaque: Array<Mesh> = [];
+		const transparent: Array<{ mesh: Mesh; depth: number }> = [];
+		const viewProjection = new Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+		scene.traverse(object => {
+			if (!(object instanceof Mesh) || !isVisible(object)) {
+				return;
+			}
+			const materials: Array<Material> = Array.isArray(object.material) ? object.material : [object.material];
+			if (materials.some(material => material.transparent)) {
+				const center = new Vector3().setFromMatrixPosition(object.matrixWorld).applyMatrix4(viewProjection);
+				transparent.push({ mesh: object, depth: center.z });
+			} else {
+				opaque.push(object);
+			}
+		});
+		// like WebGLRenderer, transparent objects are drawn after opaque ones, from back to front
+		transparent.sort((a, b) => b.depth - a.depth);
+
+		opaque.forEach(mesh => this.drawMesh(mesh, viewProjection, lights));
+		transparent.forEach(({ mesh }) => this.drawMesh(mesh, viewProjection, lights));
+
+		this.present();
+	}
+
+	dispose(): void {
+		this.textures.clear();
+	}
+
+	private allocate(): void {
+		const { width, height } = this.readPixels();
+		this.color = new Uint8ClampedArray(width * height * 4);
+		this.depth = new Float32Array(width * height);
+	}
+
+	private clear(scene: Scene): void {
+		this.depth.fill(Infinity);
+		const background = scene.background instanceof Color ? scene.background : null;
+		if (background === null) {
+			this.color.fill(0);
+			if (!this.alpha) {
+				for (let i = 3; i < this.color.length; i += 4) {
+					this.color[i] = 255;
+				}
+			}
+			return;
+		}
+		const r = background.r * 255;
+		const g = background.g * 255;
+		const b = background.b * 255;
+		for (let i = 0; i < this.color.length; i += 4) {
+			this.color[i] = r;
+			this.color[i + 1] = g;
+			this.color[i + 2] = b;
+			this.color[i + 3] = 255;
+		}
+	}
+
+	private present(): void {
+		if (this.context === null) {
+			return;
+		}
+		const { data, width, height } = this.readPixels();
+		if (width === 0 || height === 0) {
+			return;
+		}
+		const image = this.context.createImageData(width, height);
+		image.data.set(data);
+		this.context.putImageData(image, 0, 0);
+	}
+
+	private collectLights(scene: Scene): Lights {
+		const lights: Lights = { ambient: new Color(0, 0, 0), points: [], directions: [] };
+		scene.traverse(object => {
+			if (!isVisible(object)) {
+				return;
+			}
+			if (object instanceof AmbientLight) {
+				lights.ambient.add(object.color.clone().multiplyScalar(object.intensity));
+			} else if (object instanceof PointLight) {
+				lights.points.push({
+					position: new Vector3().setFromMatrixPosition(object.matrixWorld),
+					color: object.color.clone().multiplyScalar(object.intensity)
+				});
+			} else if (object instanceof DirectionalLight) {
+				const position = new Vector3().setFromMatrixPosition(object.matrixWorld);
+				const target = new Vector3().setFromMatrixPosition(object.target.matrixWorld);
+				lights.directions.push({
+					direction: position.sub(target).normalize(),
+					color: object.color.clone().multiplyScalar(object.intensity)
+				});
+			}
+		});
+		return lights;
+	}
+
+	private getTexturePixels(texture: Texture): TexturePixels | null {
+		const cached = this.textures.get(texture);
+		if (cached !== undefined && cached.version === texture.version) {
+			return cached;
+		}
+
+		const image: unknown = texture.image;
+		if (!isSizedImage(image)) {
+			return null;
+		}
+
+		let pixels: PixelBuffer | null = null;
+		if (hasPixelData(image)) {
+			pixels = { data: new Uint8ClampedArray(image.data), width: image.width, height: image.height };
+		} else {
+			let canvas: TextureCanvas | null = isCanvas(image) ? image : null;
+			if (canvas === null && this.createCanvas !== undefined) {
+				canvas = this.createCanvas();
+				canvas.width = image.width;
+				canvas.height = image.height;
+				// any other image is something that a canvas can draw, such as an HTMLImageElement or an ImageBitmap
+				(canvas.getContext("2d") as CanvasContext2D).drawImage(image as CanvasImageSource, 0, 0);
+			}
+			const context = canvas === null ? null : canvas.getContext("2d") as CanvasContext2D | null;
+			if (context !== null) {
+				pixels = context.getImageData(0, 0, image.width, image.height);
+			}
+		}
+		if (pixels === null) {
+			return null;
+		}
+
+		const result = { data: pixels.data, width: pixels.width, height: pixels.height, version: texture.version };
+		this.textures.set(texture, result);
+		return result;
+	}
+
+	private drawMesh(mesh: Mesh, viewProjection: Matrix4, lights: Lights): void {
+		const geometry = mesh.geometry as BufferGeometry;
+		const position = geometry.attributes.position;
+		const uv = geometry.attributes.uv;
+		if (position === undefined) {
+			return;
+		}
+		const index = geometry.index;
+		const count = index === null ? position.count : index.count;
+		const groups = geometry.groups.length > 0 ? geometry.groups : [{ start: 0, count, materialIndex: 0 }];
+		const mvp = new Matrix4().multiplyMatrices(viewProjection, mesh.matrixWorld);
+		const mirrored = mesh.matrixWorld.determinant() < 0;
+
+		// transform every vertex once
+		const clip: Array<Vector4> = [];
+		const world: Array<Vector3> = [];
+		for (let i = 0; i < position.count; i++) {
+			const local = new Vector3(position.getX(i), position.getY(i), position.getZ(i));
+			clip.push(new Vector4(local.x, local.y, local.z, 1).applyMatrix4(mvp));
+			world.push(local.applyMatrix4(mesh.matrixWorld));
+		}
+		const { width, height } = this.readPixels();
+		const project = (i: number): ProjectedVertex | null => {
+			const c = clip[i];
+			// triangles crossing the near plane are dropped, instead of being clipped
+			if (c.w <= 1e-5) {
+				return null;
+			}
+			const invW = 1 / c.w;
+			return {
+				x: (c.x * invW + 1) / 2 * width,
+				y: (1 - c.y * invW) / 2 * height,
+				z: c.z * invW,
+				invW,
+				u: uv === undefined ? 0 : uv.getX(i),
+				v: uv === undefined ? 0 : uv.getY(i)
+			};
+		};
+
+		groups.forEach(group => {
+			const material = Array.isArray(mesh.material) ?
+				mesh.material[group.materialIndex === undefined ? 0 : group.materialIndex] :
+				mesh.material;
+			if (material === undefined || !material.visible) {
+				return;
+			}
+			const end = Math.min(group.start + group.count, count);
+			for (let i = group.start; i + 2 < end; i += 3) {
+				const a = index === null ? i : index.getX(i);
+				const b = index === null ? i + 1 : index.getX(i + 1);
+				const c = index === null ? i + 2 : index.getX(i + 2);
+				const p0 = project(a);
+				const p1 = project(b);
+				const p2 = project(c);
+				if (p0 === null || p1 === null || p2 === null) {
+					continue;
+				}
+
+				const area = (p1.x - p0.x) * (p2.y - p0.y) - (p2.x - p0.x) * (p1.y - p0.y);
+				// the y axis points down on the screen, so front faces have a negative area
+				const front = mirrored ? area > 0 : area < 0;
+				if (area === 0 || (material.side === BackSide ? front : material.side !== DoubleSide && !front)) {
+					continue;
+				}
+				const shade = this.computeShade(material, world[a], world[b], world[c], front !== mirrored, lights);
+				this.drawTriangle(p0, p1, p2, area, material, shade);
+			}
+		});
+	}
+
+	/**
+	 * @param facing whether the triangle, in the winding order of its vertices, faces the camera
+	 */
+	private computeShade(material: Material, a: Vector3, b: Vector3, c: Vector3, facing: boolean, lights: Lights): Color {
+		const result = hasTextureMap(material) ? material.color.clone() : new Color(1, 1, 1);
+		if (!(material instanceof MeshStandardMaterial)) {
+			return result;
+		}
+
+		const normal = new Vector3().subVectors(b, a).cross(new Vector3().subVectors(c, a)).normalize();
+		// like WebGLRenderer, the back of double-sided faces is lit as if it was the front
+		if (!facing) {
+			normal.negate();
+		}
+		const center = new Vector3().add(a).add(b).add(c).divideScalar(3);
+		const irradiance = lights.ambient.clone();
+		lights.points.forEach(light => {
+			const direction = light.position.clone().sub(center).normalize();
+			irradiance.add(light.color.clone().multiplyScalar(Math.max(0, normal.dot(direction))));
+		});
+		lights.directions.forEach(light => {
+			irradiance.add(light.color.clone().multiplyScalar(Math.max(0, normal.dot(light.direction))));
+		});
+		return result.multiply(irradiance);
+	}
+
+	private drawTriangle(p0: ProjectedVertex, p1: ProjectedVertex, p2: ProjectedVertex, area: number, material: Material, shade: Color): void {
+		const { width, height } = this.readPixels();
+		const minX = Math.max(0, Math.floor(Math.min(p0.x, p1.x, p2.x)));
+		const maxX = Math.min(width - 1, Math.ceil(Math.max(p0.x, p1.x, p2.x)));
+		const minY = Math.max(0, Math.floor(Math.min(p0.y, p1.y, p2.y)));
+		const maxY = Math.min(height - 1, Math.ceil(Math.max(p0.y, p1.y, p2.y)));
+
+		const map = hasTextureMap(material) && material.map !== null ? this.getTexturePixels(material.map) : null;
+		const opacity = material.opacity;
+		const alphaTest = material.alphaTest;
+		const transparent = material.transparent;
+
+		for (let y = minY; y <= maxY; y++) {
+			const py = y + 0.5;
+			for (let x = minX; x <= maxX; x++) {
+				const px = x + 0.5;
+				const w0 = ((p1.x - px) * (p2.y - py) - (p2.x - px) * (p1.y - py)) / area;
+				const w1 = ((p2.x - px) * (p0.y - py) - (p0.x - px) * (p2.y - py)) / area;
+				const w2 = 1 - w0 - w1;
+				if (w0 < 0 || w1 < 0 || w2 < 0) {
+					continue;
+				}
+
+				const z = w0 * p0.z + w1 * p1.z + w2 * p2.z;
+				const pixel = y * width + x;
+				if (z < -1 || z > 1 || z >= this.depth[pixel]) {
+					continue;
+				}
+
+				let r = 255, g = 255, b = 255, a = 255;
+				if (map !== null) {
+					// perspective-correct interpolation
+					const invW = w0 * p0.invW + w1 * p1.invW + w2 * p2.invW;
+					const u = (w0 * p0.u * p0.invW + w1 * p1.u * p1.invW + w2 * p2.u * p2.invW) / invW;
+					const v = (w0 * p0.v * p0.invW + w1 * p1.v * p1.invW + w2 * p2.v * p2.invW) / invW;
+					// textures are flipped vertically, as in WebGL
+					const tx = Math.min(map.width - 1, Math.max(0, Math.floor(u * map.width)));
+					const ty = Math.min(map.height - 1, Math.max(0, Math.floor((1 - v) * map.height)));
+					const texel = (ty * map.width + tx) * 4;
+					r = map.data[texel];
+					g = map.data[texel + 1];
+					b = map.data[texel + 2];
+					a = map.data[texel + 3];
+				}
+
+				let alpha = a / 255 * opacity;
+				if (alphaTest > 0 && alpha < alphaTest) {
+					continue;
+				}
+				if (!transparent) {
+					alpha = 1;
+				}
+				if (alpha <= 0) {
+					continue;
+				}
+
+				const offset = pixel * 4;
+				const dstAlpha = this.color[offset + 3] / 255;
+				const outAlpha = alpha + dstAlpha * (1 - alpha);
+				const blend = (src: number, dst: number) => (src * alpha + dst * dstAlpha * (1 - alpha)) / outAlpha;
+				this.color[offset] = blend(r * shade.r, this.color[offset]);
+				this.color[offset + 1] = blend(g * shade.g, this.color[offset + 1]);
+				this.color[offset + 2] = blend(b * shade.b, this.color[offset + 2]);
+				this.color[offset + 3] = outAlpha * 255;
+				this.depth[pixel] = z;
+			}
+		}
+	}
+}
@@ -0,0 +1,132 @@
+export interface ModelValidationIssue {
+	/**
+	 * The location of the problem in the JSON, such as "elements[3].faces.north.uv".
+	 * It is an empty string if the problem is with the root.
+	 */
+	readonly path: string;
+	readonly message: string;
+}
+
+/**
+ * Thrown when a custom model is malformed.
+ * `subject` names what is malformed in the message, e.g. "model".
+ */
+export class ModelValidationError extends Error {
+
+	constructor(readonly issues: ReadonlyArray<ModelValidationIssue>, subject: string = "model") {
+		super(`Invalid ${subject}:\n` + issues.map(issue => `${issue.path || "<root>"}: ${issue.message}`).join("\n"));
+		this.name = "ModelValidationError";
+	}
+}
+
+/**
+ * Thrown when the JSON of a pose is malformed.
+ */
+export class PoseValidationError extends ModelValidationError {
+
+	constructor(issues: ReadonlyArray<ModelValidationIssue>) {
+		super(issues, "pose");
+		this.name = "PoseValidationError";
+	}
+}
+
+/**
+ * Thrown when the JSON of a keyframe animation is malformed.
+ */
+export class AnimationValidationError extends ModelValidationError {
+
+	constructor(issues: ReadonlyArray<ModelValidationIssue>) {
+		super(issues, "animation");
+		this.name = "AnimationValidationError";
+	}
+}
+
+/**
+ * Collects issues while walking through a JSON value.
+ */
+export class ModelValidator {
+	readonly issues: Array<ModelValidationIssue> = [];
+
+	report(path: string, message: string): void {
+		this.issues.push({ path, message });
+	}
+
+	/**
+	 * Throws a ModelValidationError if any issue has been reported.
+	 */
+	throwIfInvalid(): void {
+		if (this.issues.length > 0) {
+			throw new ModelValidationError(this.issues);
+		}
+	}
+
+	static child(path: string, key: string | number): string {
+		if (typeof key === "number") {
+			return `${path}[${key}]`;
+		}
+		return path === "" ? key : `${path}.${key}`;
+	}
+
+	isObject(value: unknown, path: string): value is Record<string, unknown> {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			this.report(path, "must be an object");
+			return false;
+		}
+		return true;
+	}
+
+	isArray(value: unknown, path: string): value is Array<unknown> {
+		if (!Array.isArray(value)) {
+			this.report(path, "must be an array");
+			return false;
+		}
+		return true;
+	}
+
+	isString(value: unknown, path: string): value is string {
+		if (typeof value !== "string") {
+			this.report(path, "must be a string");
+			return false;
+		}
+		return true;
+	}
+
+	isBoolean(value: unknown, path: string): value is boolean {
+		if (typeof value !== "boolean") {
+			this.report(path, "must be a boolean");
+			return false;
+		}
+		return true;
+	}
+
+	isNumber(value: unknown, path: string): value is number {
+		if (typeof value !== "number" || !isFinite(value)) {
+			this.report(path, "must be a finite number");
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Checks that the value is an array of `length` finite numbers.
+	 */
+	isVector(value: unknown, length: number, path: string): value is Array<number> {
+		if (!Array.isArray(value) || value.length !== length) {
+			this.report(path, `must be an array of ${length} numbers`);
+			return false;
+		}
+		let valid = true;
+		value.forEach((it, i) => {
+			valid = this.isNumber(it, ModelValidator.child(path, i)) && valid;
+		});
+		return valid;
+	}
+
+	isOneOf<T>(value: unknown, allowed: ReadonlyArray<T>, path: string): value is T {
+		if (!allowed.includes(value as T)) {
+			this.report(path, `must be one of ${allowed.map(it => JSON.stringify(it)).join(", ")}`);
+			return false;
+		}
+		return true;
+	}
+}
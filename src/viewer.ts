@@ -1,7 +1,13 @@
-import { inferModelType, isTextureSource, loadCapeToCanvas, loadCustomModelToCanvas, loadEarsToCanvas, loadEarsToCanvasFromSkin, loadImage, loadSkinToCanvas, ModelType, RemoteImage, TextureSource } from "skinview-utils";
-import { Color, ColorRepresentation, PointLight, EquirectangularReflectionMapping, Group, NearestFilter, PerspectiveCamera, Scene, Texture, Vector2, WebGLRenderer, AmbientLight, Mapping } from "three";
+import { inferModelType, loadCapeToCanvas, loadCustomModelToCanvas, loadEarsToCanvas, loadEarsToCanvasFromSkin, loadImage, loadSkinToCanvas, ModelType, RemoteImage, TextureCanvas, TextureSource } from "skinview-utils";
+import { Color, ColorRepresentation, PointLight, EquirectangularReflectionMapping, Group, Mesh, MeshStandardMaterial, NearestFilter, OrthographicCamera, PerspectiveCamera, Scene, Texture, Vector2, Vector2Tuple, WebGLRenderer, AmbientLight, Mapping } from "three";
 import { RootAnimation } from "./animation.js";
-import { BackEquipment, PlayerObject, JsonModelObject } from "./model.js";
+import { BlockbenchModel, isBlockbenchModel, loadBlockbenchTextures } from "./bbmodel.js";
+import { BedrockGeometry } from "./bedrock_model.js";
+import { encodeAPNGInSteps, encodeGIFInSteps, encodePNG } from "./image_encoders.js";
+import { JavaModelTextures } from "./java_model.js";
+import { Accessory, AccessoryType, AttachmentPointName, BackEquipment, CustomModel, PlayerObject } from "./model.js";
+import { RenderPreset, RenderPresetName, RENDER_PRESETS } from "./render_presets.js";
+import { SoftwareRenderer } from "./software_renderer.js";
 
 export interface LoadOptions {
 	/**
@@ -23,6 +29,14 @@ export interface SkinLoadOptions extends LoadOptions {
 	 * Default is false.
 	 */
 	ears?: boolean | "load-only";
+
+	/**
+	 * A Bedrock Edition geometry that replaces the shape of the skin, such as a custom player model.
+	 * null: Restores the default shape.
+	 * undefined: Keeps the current shape.
+	 * Default is undefined.
+	 */
+	geometry?: BedrockGeometry | null;
 }
 
 export interface CapeLoadOptions extends LoadOptions {
@@ -34,7 +48,35 @@ export interface CapeLoadOptions extends LoadOptions {
 }
 
 export interface CustomModelOptions extends LoadOptions {
-	
+}
+
+export interface AccessoryOptions {
+	/**
+	 * The unique identifier of the accessory.
+	 */
+	id: string;
+
+	/**
+	 * The kind of the accessory.
+	 */
+	type: AccessoryType;
+
+	/**
+	 * The attachment point that the accessory follows.
+	 * Default is "head" for hats, and "leftShoulder" for shoulder buddies.
+	 */
+	attachTo?: AttachmentPointName;
+
+	/**
+	 * The JSON model of the accessory, or a Blockbench project.
+	 */
+	model: CustomModel;
+
+	/**
+	 * The texture of the accessory.
+	 * If unspecified, the textures embedded in a Blockbench project are used, with one material for each texture.
+	 */
+	texture?: RemoteImage | TextureSource;
 }
 
 export interface EarsLoadOptions extends LoadOptions {
@@ -52,50 +94,24 @@ export interface SkinViewerOptions {
 	skin?: RemoteImage | TextureSource;
 	model?: ModelType | "auto-detect";
 	cape?: RemoteImage | TextureSource;
+
+	/**
+	 * The texture of the "hat" accessory. It is ignored unless `hatModel` is given too.
+	 */
 	hatTexture?: RemoteImage | TextureSource;
-	hatModel?: any;
-	hat1Texture?: RemoteImage | TextureSource;
-	hat1Model?: any;
-	hat2Texture?: RemoteImage | TextureSource;
-	hat2Model?: any;
-	hat3Texture?: RemoteImage | TextureSource;
-	hat3Model?: any;
-	hat4Texture?: RemoteImage | TextureSource;
-	hat4Model?: any;
-	hat5Texture?: RemoteImage | TextureSource;
-	hat5Model?: any;
-	hat6Texture?: RemoteImage | TextureSource;
-	hat6Model?: any;
-	hat7Texture?: RemoteImage | TextureSource;
-	hat7Model?: any;
-	hat8Texture?: RemoteImage | TextureSource;
-	hat8Model?: any;
-	hat9Texture?: RemoteImage | TextureSource;
-	hat9Model?: any;
+	hatModel?: CustomModel;
+
+	/**
+	 * The texture of the "shoulderBuddy" accessory. It is ignored unless `shoulderBuddyModel` is given too.
+	 */
 	shoulderBuddyTexture?: RemoteImage | TextureSource;
-	shoulderBuddyModel?: any;
-	shoulderBuddy1Texture?: RemoteImage | TextureSource;
-	shoulderBuddy1Model?: any;
-	shoulderBuddy2Texture?: RemoteImage | TextureSource;
-	shoulderBuddy2Model?: any;
-	shoulderBuddy3Texture?: RemoteImage | TextureSource;
-	shoulderBuddy3Model?: any;
-	shoulderBuddy4Texture?: RemoteImage | TextureSource;
-	shoulderBuddy4Model?: any;
-	shoulderBuddy5Texture?: RemoteImage | TextureSource;
-	shoulderBuddy5Model?: any;
-	shoulderBuddy6Texture?: RemoteImage | TextureSource;
-	shoulderBuddy6Model?: any;
-	shoulderBuddy7Texture?: RemoteImage | TextureSource;
-	shoulderBuddy7Model?: any;
-	shoulderBuddy8Texture?: RemoteImage | TextureSource;
-	shoulderBuddy8Model?: any;
-	shoulderBuddy9Texture?: RemoteImage | TextureSource;
-	shoulderBuddy9Model?: any;
+	shoulderBuddyModel?: CustomModel;
 	backEquipment?: BackEquipment | null;
 
-	shoulderBuddyList?: any;
-	hatList?: any;
+	/**
+	 * The accessories (hats, shoulder buddies) to add.
+	 */
+	accessories?: Array<AccessoryOptions>;
 
 	/**
 	 * If you want to show the ears drawn on the current skin, set this to "current-skin".
@@ -117,14 +133,42 @@ export interface SkinViewerOptions {
 	/**
 	 * Render target.
 	 * A new canvas is created if this parameter is unspecified.
+	 *
+	 * An OffscreenCanvas can be used to render in a Web Worker.
+	 */
+	canvas?: HTMLCanvasElement | OffscreenCanvas;
+
+	/**
+	 * A WebGL context to render with, such as one created by a headless GL implementation in Node.
+	 * If specified, `canvas` should be the canvas that the context belongs to.
 	 */
-	canvas?: HTMLCanvasElement;
+	context?: WebGLRenderingContext;
+
+	/**
+	 * Creates the canvases that hold the textures.
+	 * By default, `document.createElement("canvas")` is used when there is a DOM, and `OffscreenCanvas` otherwise.
+	 * Specify this if neither of them is available.
+	 */
+	createCanvas?: () => TextureCanvas;
+
+	/**
+	 * The device pixel ratio. Default is `window.devicePixelRatio` when there is a window, and 1 otherwise.
+	 */
+	pixelRatio?: number;
 
 	/**
 	 * Whether to preserve the buffers until manually cleared or overwritten. Default is false.
 	 */
 	preserveDrawingBuffer?: boolean;
 
+	/**
+	 * "webgl": Renders with WebGL. The constructor throws if WebGL is unavailable.
+	 * "software": Renders on the CPU to a 2D canvas, see `SoftwareRenderer`.
+	 * "auto": Uses WebGL if it is available, and falls back to "software" otherwise.
+	 * Default is "auto".
+	 */
+	renderer?: "webgl" | "software" | "auto";
+
 	/**
 	 * The initial value of `SkinViewer.renderPaused`. Default is false.
 	 * If this option is true, rendering and animation loops will not start.
@@ -141,6 +185,11 @@ export interface SkinViewerOptions {
 	 */
 	panorama?: RemoteImage | TextureSource;
 
+	/**
+	 * The projection of the camera. Default is "perspective".
+	 */
+	projection?: CameraProjection;
+
 	/**
 	 * Camera vertical field of view, in degrees. Default is 50.
 	 * The distance between the object and the camera is automatically computed.
@@ -153,156 +202,245 @@ export interface SkinViewerOptions {
 	 * When set to 1.0, the top edge of the player's head coincides with the edge of the view.
 	 */
 	zoom?: number;
+
+	/**
+	 * A render preset to apply, see `SkinViewer.applyPreset`. This option overrides 'fov' and 'zoom' options.
+	 */
+	preset?: RenderPresetName | RenderPreset;
+}
+
+/**
+ * "perspective": Distant objects look smaller.
+ * "orthographic": Objects keep their size at any distance, which is faithful to the pixels of the textures.
+ */
+export type CameraProjection = "perspective" | "orthographic";
+
+export interface RenderToBlobOptions {
+	/**
+	 * The image format. Default is "image/png".
+	 */
+	type?: string;
+
+	/**
+	 * The quality of lossy formats, from 0 to 1.
+	 */
+	quality?: number;
 }
 
+/**
+ * "gif": An animated GIF. Colors are reduced to a palette of 255, and alpha to transparent or opaque.
+ * "apng": An animated PNG, without loss.
+ * "png-sequence": One PNG image per frame.
+ */
+export type RecordingFormat = "gif" | "apng" | "png-sequence";
+
+export interface RecordAnimationOptions {
+	/**
+	 * The length of the recording, in seconds.
+	 */
+	duration: number;
+
+	/**
+	 * Frames per second. Default is 30.
+	 */
+	fps?: number;
+
+	/**
+	 * Default is "gif".
+	 */
+	format?: RecordingFormat;
+}
+
+interface EmbeddedTextures {
+	/**
+	 * The textures to build the model with, looked up as with `loadBlockbenchTextures`.
+	 */
+	readonly lookup: JavaModelTextures;
+
+	/**
+	 * The textures that were created for the embedded ones, which the viewer owns.
+	 */
+	readonly textures: Set<Texture>;
+}
+
+function createDefaultCanvas(): TextureCanvas {
+	if (typeof document !== "undefined") {
+		return document.createElement("canvas");
+	}
+	return new OffscreenCanvas(1, 1);
+}
+
+/**
+ * Like `isTextureSource` of skinview-utils, but also works where some of the DOM classes do not exist,
+ * such as in a Web Worker or in Node.
+ */
+function isTextureSource(value: unknown): value is TextureSource {
+	return (typeof HTMLImageElement !== "undefined" && value instanceof HTMLImageElement) ||
+		(typeof HTMLVideoElement !== "undefined" && value instanceof HTMLVideoElement) ||
+		(typeof HTMLCanvasElement !== "undefined" && value instanceof HTMLCanvasElement) ||
+		(typeof ImageBitmap !== "undefined" && value instanceof ImageBitmap) ||
+		(typeof OffscreenCanvas !== "undefined" && value instanceof OffscreenCanvas);
+}
+
+function loadRemoteImage(source: RemoteImage): Promise<TextureSource> {
+	if (typeof Image !== "undefined") {
+		return loadImage(source);
+	}
+	// Web Workers have no Image, so the image is fetched and decoded instead
+	const url = typeof source === "string" ? source : source.src;
+	return fetch(url)
+		.then(response => {
+			if (!response.ok) {
+				throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+			}
+			return response.blob();
+		})
+		.then(blob => createImageBitmap(blob));
+}
+
+/**
+ * Lets the event loop run other tasks, such as input events, before going on.
+ */
+function nextTask(): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+async function runInTasks(steps: Generator<void, Uint8Array>): Promise<Uint8Array> {
+	for (;;) {
+		const step = steps.next();
+		if (step.done === true) {
+			return step.value;
+		}
+		await nextTask();
+	}
+}
+
+/**
+ * A frame requested with requestAnimationFrame, or with a timeout where there is no requestAnimationFrame.
+ */
+type FrameRequest = { readonly animationFrame: number } | { readonly timeout: ReturnType<typeof setTimeout> };
+
+function requestFrame(callback: () => void): FrameRequest {
+	if (typeof requestAnimationFrame !== "undefined") {
+		return { animationFrame: requestAnimationFrame(callback) };
+	}
+	return { timeout: setTimeout(callback, 1000 / 60) };
+}
+
+function cancelFrame(request: FrameRequest): void {
+	if ("animationFrame" in request) {
+		cancelAnimationFrame(request.animationFrame);
+	} else {
+		clearTimeout(request.timeout);
+	}
+}
+
+/**
+ * Renders a player with WebGL.
+ *
+ * The viewer can run without a DOM, e.g. in a Web Worker with an OffscreenCanvas,
+ * or in Node with a headless WebGL context (see `SkinViewerOptions.context` and `SkinViewerOptions.createCanvas`).
+ * In that case, pass `renderPaused: true` and use `renderToBlob` or `renderToImageData` to get the images.
+ */
 export class SkinViewer {
-	readonly canvas: HTMLCanvasElement;
+	readonly canvas: HTMLCanvasElement | OffscreenCanvas;
 	readonly scene: Scene;
-	readonly camera: PerspectiveCamera;
-	readonly renderer: WebGLRenderer;
+	readonly perspectiveCamera: PerspectiveCamera;
+	readonly orthographicCamera: OrthographicCamera;
+
+	/**
+	 * Functions called after `camera` is replaced, e.g. when `projection` changes.
+	 * Objects that hold the camera, such as orbit controls, use this to follow the change.
+	 */
+	readonly cameraListeners: Set<(camera: PerspectiveCamera | OrthographicCamera) => void> = new Set();
+	readonly renderer: WebGLRenderer | SoftwareRenderer;
 	playerObject: PlayerObject;
 	readonly playerWrapper: Group;
 	readonly animations: RootAnimation = new RootAnimation();
 	readonly globalLight: AmbientLight = new AmbientLight(0xffffff, 0.4);
 	readonly cameraLight: PointLight = new PointLight(0xffffff, 0.6);
 
-	readonly skinCanvas: HTMLCanvasElement;
-	readonly capeCanvas: HTMLCanvasElement;
-	hatCanvas: HTMLCanvasElement;
-	shoulderBuddyCanvas: HTMLCanvasElement;
-	hatCanvases: any;
-	shoulderBuddyCanvases: any;
-	readonly earsCanvas: HTMLCanvasElement;
+	readonly skinCanvas: TextureCanvas;
+	readonly capeCanvas: TextureCanvas;
+	readonly earsCanvas: TextureCanvas;
 	private readonly skinTexture: Texture;
 	private readonly capeTexture: Texture;
-	private readonly hatTexture: Texture;
-	private readonly shoulderBuddyTexture: Texture;
 	private readonly earsTexture: Texture;
 
-	private hatModel: any;
-	private shoulderBuddyModel: any;
-	private hatList: any;
-	private shoulderBuddyList: any;
-
 	private backgroundTexture: Texture | null = null;
 
+	/**
+	 * The textures of accessories that are being loaded from a URL.
+	 * The token tells whether a load is still the latest one for the accessory when it completes.
+	 */
+	private readonly accessoryLoads: Map<string, { readonly token: object; readonly promise: Promise<void> }> = new Map();
+
+	/**
+	 * The textures embedded in the Blockbench projects of accessories, by accessory id, which the viewer owns.
+	 * They are created empty with the accessory, and receive the images once these are decoded.
+	 */
+	private readonly embeddedTextures: Map<string, EmbeddedTextures> = new Map();
+
 	private _disposed: boolean = false;
 	private _renderPaused: boolean = false;
 	private _zoom: number;
+	private _projection: CameraProjection = "perspective";
+
+	/**
+	 * The size of the region framed by the last preset, until the zoom is changed.
+	 * The zoom that fits it depends on the aspect ratio, so it is recomputed when the viewer is resized.
+	 */
+	private presetSize: Vector2Tuple | null = null;
+
+	private readonly createCanvas: () => TextureCanvas;
 
-	private animationID: number | null;
+	private animationID: FrameRequest | null;
 	private onContextLost: (event: Event) => void;
+	private readonly onAccessoryModelChange: () => void = () => this.onModelChange();
 	private onContextRestored: () => void;
 
 	constructor(options: SkinViewerOptions = {}) {
-		this.canvas = options.canvas === undefined ? document.createElement("canvas") : options.canvas;
+		this.createCanvas = options.createCanvas === undefined ? createDefaultCanvas : options.createCanvas;
+		this.canvas = options.canvas === undefined ? this.createCanvas() : options.canvas;
 
 		// texture
-		this.skinCanvas = document.createElement("canvas");
-		this.skinTexture = new Texture(this.skinCanvas);
+		this.skinCanvas = this.createCanvas();
+		this.skinTexture = new Texture();
+		this.skinTexture.image = this.skinCanvas;
 		this.skinTexture.magFilter = NearestFilter;
 		this.skinTexture.minFilter = NearestFilter;
 
-		this.capeCanvas = document.createElement("canvas");
-		this.capeTexture = new Texture(this.capeCanvas);
+		this.capeCanvas = this.createCanvas();
+		this.capeTexture = new Texture();
+		this.capeTexture.image = this.capeCanvas;
 		this.capeTexture.magFilter = NearestFilter;
 		this.capeTexture.minFilter = NearestFilter;
 
-		this.hatCanvas = document.createElement("canvas");
-		this.hatTexture = new Texture(this.hatCanvas);
-		this.hatTexture.magFilter = NearestFilter;
-		this.hatTexture.minFilter = NearestFilter;
-
-		this.hatModel = options.hatModel;
-
-
-		this.shoulderBuddyCanvas = document.createElement("canvas");
-		this.shoulderBuddyTexture = new Texture(this.shoulderBuddyCanvas);
-		this.shoulderBuddyTexture.magFilter = NearestFilter;
-		this.shoulderBuddyTexture.minFilter = NearestFilter;
-
-		this.shoulderBuddyModel = options.shoulderBuddyModel;
-
-		this.hatCanvases = [null, null, null, null, null, null, null, null, null];
-		this.shoulderBuddyCanvases = [null, null, null, null, null, null, null, null, null];
-
-		if (options.hat1Model) this.hatCanvases[0] = {model: options.hat1Model, image: options.hat1Texture};
-		if (options.hat2Model) this.hatCanvases[1] = {model: options.hat2Model, image: options.hat2Texture};
-		if (options.hat3Model) this.hatCanvases[2] = {model: options.hat3Model, image: options.hat3Texture};
-		if (options.hat4Model) this.hatCanvases[3] = {model: options.hat4Model, image: options.hat4Texture};
-		if (options.hat5Model) this.hatCanvases[4] = {model: options.hat5Model, image: options.hat5Texture};
-		if (options.hat6Model) this.hatCanvases[5] = {model: options.hat6Model, image: options.hat6Texture};
-		if (options.hat7Model) this.hatCanvases[6] = {model: options.hat7Model, image: options.hat7Texture};
-		if (options.hat8Model) this.hatCanvases[7] = {model: options.hat8Model, image: options.hat8Texture};
-		if (options.hat9Model) this.hatCanvases[8] = {model: options.hat9Model, image: options.hat9Texture};
-
-		if (options.shoulderBuddy1Model) this.shoulderBuddyCanvases[0] = {model: options.shoulderBuddy1Model, image: options.shoulderBuddy1Texture};
-		if (options.shoulderBuddy2Model) this.shoulderBuddyCanvases[1] = {model: options.shoulderBuddy2Model, image: options.shoulderBuddy2Texture};
-		if (options.shoulderBuddy3Model) this.shoulderBuddyCanvases[2] = {model: options.shoulderBuddy3Model, image: options.shoulderBuddy3Texture};
-		if (options.shoulderBuddy4Model) this.shoulderBuddyCanvases[3] = {model: options.shoulderBuddy4Model, image: options.shoulderBuddy4Texture};
-		if (options.shoulderBuddy5Model) this.shoulderBuddyCanvases[4] = {model: options.shoulderBuddy5Model, image: options.shoulderBuddy5Texture};
-		if (options.shoulderBuddy6Model) this.shoulderBuddyCanvases[5] = {model: options.shoulderBuddy6Model, image: options.shoulderBuddy6Texture};
-		if (options.shoulderBuddy7Model) this.shoulderBuddyCanvases[6] = {model: options.shoulderBuddy7Model, image: options.shoulderBuddy7Texture};
-		if (options.shoulderBuddy8Model) this.shoulderBuddyCanvases[7] = {model: options.shoulderBuddy8Model, image: options.shoulderBuddy8Texture};
-		if (options.shoulderBuddy9Model) this.shoulderBuddyCanvases[8] = {model: options.shoulderBuddy9Model, image: options.shoulderBuddy9Texture};
-
-		/*if (options.hatList != undefined) {
-			for (var i = 0; i < options.hatList.length; i++) {
-				var canvas = document.createElement("canvas");
-				var texture = new Texture(canvas);
-				texture.magFilter = NearestFilter;
-				texture.minFilter = NearestFilter;
-				this.hatCanvases[i] = {
-					canvas: canvas,
-					texture: texture,
-					json: options.hatList[i].json,
-					image: options.hatList[i].image
-				};
-			}
-		}
-		console.log("canvas list:", this.hatCanvases, JSON.stringify(this.hatCanvases));
-
-		if (options.shoulderBuddyList) {
-			for (var i = 0; i < this.shoulderBuddyList.length; i++) {
-				var canvas = document.createElement("canvas");
-				var texture = new Texture(canvas);
-				texture.magFilter = NearestFilter;
-				texture.minFilter = NearestFilter;
-				this.shoulderBuddyCanvases[i] = {
-					canvas: canvas,
-					texture: texture,
-					json: this.shoulderBuddyList[i].json,
-					image: options.shoulderBuddyList[i].image
-				};
-			}
-		}*/
-
-		this.earsCanvas = document.createElement("canvas");
-		this.earsTexture = new Texture(this.earsCanvas);
+		this.earsCanvas = this.createCanvas();
+		this.earsTexture = new Texture();
+		this.earsTexture.image = this.earsCanvas;
 		this.earsTexture.magFilter = NearestFilter;
 		this.earsTexture.minFilter = NearestFilter;
 
 		this.scene = new Scene();
 
-		this.camera = new PerspectiveCamera();
-		this.camera.add(this.cameraLight);
-		this.scene.add(this.camera);
+		this.perspectiveCamera = new PerspectiveCamera();
+		this.orthographicCamera = new OrthographicCamera();
+		this.perspectiveCamera.add(this.cameraLight);
+		this.scene.add(this.perspectiveCamera, this.orthographicCamera);
 		this.scene.add(this.globalLight);
 
-		this.renderer = new WebGLRenderer({
-			canvas: this.canvas,
-			alpha: options.alpha !== false, // default: true
-			preserveDrawingBuffer: options.preserveDrawingBuffer === true // default: false
-
-		});
-		this.renderer.setPixelRatio(window.devicePixelRatio);
+		this.renderer = this.createRenderer(options);
+		if (options.pixelRatio !== undefined) {
+			this.renderer.setPixelRatio(options.pixelRatio);
+		} else if (typeof window !== "undefined") {
+			this.renderer.setPixelRatio(window.devicePixelRatio);
+		}
 
-		this.playerObject = new PlayerObject(this.skinTexture, this.capeTexture, this.hatTexture, this.hatModel, this.shoulderBuddyTexture, this.shoulderBuddyModel, this.earsTexture, this.hatCanvases, this.shoulderBuddyCanvases);
+		this.playerObject = new PlayerObject(this.skinTexture, this.capeTexture, this.earsTexture);
 		this.playerObject.name = "player";
 		this.playerObject.skin.visible = false;
 		this.playerObject.cape.visible = false;
-		this.playerObject.hat.visible = false;
-		this.playerObject.shoulderBuddy.visible = false;
 		this.playerWrapper = new Group();
 		this.playerWrapper.add(this.playerObject);
 		this.scene.add(this.playerWrapper);
@@ -320,27 +458,25 @@ export class SkinViewer {
 				this.loadCape(options.cape);
 			}
 		}
-		if (options.hatTexture !== undefined && options.hatTexture != null) {
-			this.loadHat(options.hatTexture, options.hatModel);
+		if (options.hatModel !== undefined) {
+			this.addAccessory({
+				id: "hat",
+				type: "hat",
+				model: options.hatModel,
+				texture: options.hatTexture
+			});
 		}
-		if (options.shoulderBuddyTexture !== undefined) {
-			this.loadShoulderBuddy(options.shoulderBuddyTexture, options.shoulderBuddyModel);
+		if (options.shoulderBuddyModel !== undefined) {
+			this.addAccessory({
+				id: "shoulderBuddy",
+				type: "shoulderBuddy",
+				model: options.shoulderBuddyModel,
+				texture: options.shoulderBuddyTexture
+			});
 		}
-
-		function handleCustomCanvas(canvas: any, src: any, model: any) {
-			var image = new Image();
-			image.src = src;
-			image.onload = function() {
-				loadCustomModelToCanvas(canvas, image);
-				model.visible = true;
-			}
+		if (options.accessories !== undefined) {
+			options.accessories.forEach(accessory => this.addAccessory(accessory));
 		}
-
-		/*for (var i = 0; i < this.hatCanvases.length; i++) {
-			console.log("image:" + options.hatList[i].image);
-			handleCustomCanvas(this.hatCanvases[i].canvas, options.hatList[i].image, this.playerObject.hats[i]);
-		}*/
-
 		if (options.ears !== undefined && options.ears !== "current-skin") {
 			this.loadEars(options.ears.source, {
 				textureType: options.ears.textureType
@@ -361,30 +497,67 @@ export class SkinViewer {
 		this.camera.position.z = 1;
 		this._zoom = options.zoom === undefined ? 0.9 : options.zoom;
 		this.fov = options.fov === undefined ? 50 : options.fov;
+		if (options.projection !== undefined) {
+			this.projection = options.projection;
+		}
+		if (options.preset !== undefined) {
+			this.applyPreset(options.preset);
+		}
 
 		if (options.renderPaused === true) {
 			this._renderPaused = true;
 			this.animationID = null;
 		} else {
-			this.animationID = window.requestAnimationFrame(() => this.draw());
+			this.animationID = requestFrame(() => this.draw());
 		}
 
 		this.onContextLost = (event: Event) => {
 			event.preventDefault();
 			if (this.animationID !== null) {
-				window.cancelAnimationFrame(this.animationID);
+				cancelFrame(this.animationID);
 				this.animationID = null;
 			}
 		};
 
 		this.onContextRestored = () => {
 			if (!this._renderPaused && !this._disposed && this.animationID === null) {
-				this.animationID = window.requestAnimationFrame(() => this.draw());
+				this.animationID = requestFrame(() => this.draw());
 			}
 		};
 
-		this.canvas.addEventListener("webglcontextlost", this.onContextLost, false);
-		this.canvas.addEventListener("webglcontextrestored", this.onContextRestored, false);
+		// canvases of headless contexts may not be event targets
+		if (typeof this.canvas.addEventListener === "function") {
+			this.canvas.addEventListener("webglcontextlost", this.onContextLost, false);
+			this.canvas.addEventListener("webglcontextrestored", this.onContextRestored, false);
+		}
+	}
+
+	private createRenderer(options: SkinViewerOptions): WebGLRenderer | SoftwareRenderer {
+		const createSoftwareRenderer = () => new SoftwareRenderer({
+			canvas: this.canvas,
+			alpha: options.alpha,
+			createCanvas: this.createCanvas
+		});
+		if (options.renderer === "software") {
+			return createSoftwareRenderer();
+		}
+		try {
+			return new WebGLRenderer({
+				canvas: this.canvas,
+				context: options.context,
+				alpha: options.alpha !== false, // default: true
+				preserveDrawingBuffer: options.preserveDrawingBuffer === true // default: false
+			});
+		} catch (e) {
+			if (options.renderer === "webgl") {
+				throw e;
+			}
+			return createSoftwareRenderer();
+		}
+	}
+
+	private isContextLost(): boolean {
+		return this.renderer instanceof WebGLRenderer && this.renderer.getContext().isContextLost();
 	}
 
 	loadSkin(empty: null): void;
@@ -410,6 +583,10 @@ export class SkinViewer {
 				this.playerObject.skin.modelType = options.model;
 			}
 
+			if (options.geometry !== undefined) {
+				this.playerObject.skin.setGeometry(options.geometry);
+			}
+
 			if (options.makeVisible !== false) {
 				this.playerObject.skin.visible = true;
 			}
@@ -423,7 +600,7 @@ export class SkinViewer {
 			}
 
 		} else {
-			return loadImage(source).then(image => this.loadSkin(image, options));
+			return loadRemoteImage(source).then(image => this.loadSkin(image, options));
 		}
 	}
 
@@ -453,7 +630,7 @@ export class SkinViewer {
 			}
 
 		} else {
-			return loadImage(source).then(image => this.loadCape(image, options));
+			return loadRemoteImage(source).then(image => this.loadCape(image, options));
 		}
 	}
 
@@ -461,76 +638,289 @@ export class SkinViewer {
 		this.playerObject.backEquipment = null;
 	}
 
-	loadHat(empty: null): void;
-	loadHat<S extends TextureSource | RemoteImage>(
+	/**
+	 * Adds an accessory to the player, with its own texture.
+	 * If an accessory with the same id exists, it is replaced.
+	 *
+	 * The accessory is hidden until its texture is loaded.
+	 * If `options.texture` is unspecified, use `loadAccessoryTexture` to load the texture later.
+	 * Use `accessoryTextureLoaded` to know when a texture loaded from a URL is ready, or why it failed.
+	 *
+	 * @throws ModelValidationError if the model is malformed
+	 */
+	addAccessory(options: AccessoryOptions): Accessory {
+		const texture = new Texture();
+		texture.image = this.createCanvas();
+		texture.magFilter = NearestFilter;
+		texture.minFilter = NearestFilter;
+
+		let embedded: EmbeddedTextures | undefined = undefined;
+		if (options.texture === undefined && isBlockbenchModel(options.model) && options.model.textures?.some(it => it.source?.startsWith("data:"))) {
+			embedded = this.createEmbeddedTextures(options.model, texture);
+		}
+
+		const previous = this.playerObject.getAccessory(options.id);
+		let accessory: Accessory;
+		try {
+			accessory = this.playerObject.addAccessory(options.id, options.type, texture, options.model, options.attachTo, embedded?.lookup);
+		} catch (e) {
+			texture.dispose();
+			embedded?.textures.forEach(it => it.dispose());
+			throw e;
+		}
+		if (previous !== undefined) {
+			previous.model.removeEventListener("modelchange", this.onAccessoryModelChange);
+		}
+		accessory.model.visible = false;
+		accessory.model.addEventListener("modelchange", this.onAccessoryModelChange);
+		// a previous accessory with the same id no longer receives its pending texture
+		this.accessoryLoads.delete(options.id);
+		this.releaseEmbeddedTextures(options.id);
+
+		let load: void | Promise<void> = undefined;
+		if (options.texture !== undefined) {
+			load = this.loadAccessoryTexture(options.id, options.texture);
+		} else if (embedded !== undefined && isBlockbenchModel(options.model)) {
+			this.embeddedTextures.set(options.id, embedded);
+			load = this.loadEmbeddedTextures(accessory, options.model, embedded);
+		}
+		if (load !== undefined) {
+			load.catch(() => {
+				// reported through accessoryTextureLoaded()
+			});
+		}
+		return accessory;
+	}
+
+	/**
+	 * Creates an empty texture for each texture embedded in a Blockbench project, which can be looked up
+	 * as with `loadBlockbenchTextures`. The other textures of the project are mapped to `fallback`.
+	 */
+	private createEmbeddedTextures(model: BlockbenchModel, fallback: Texture): EmbeddedTextures {
+		const lookup: Record<string, Texture> = {};
+		const textures: Set<Texture> = new Set();
+		(model.textures || []).forEach((it, index) => {
+			let texture = fallback;
+			if (it.source !== undefined && it.source.startsWith("data:")) {
+				texture = new Texture();
+				texture.image = this.createCanvas();
+				texture.magFilter = NearestFilter;
+				texture.minFilter = NearestFilter;
+				textures.add(texture);
+			}
+			lookup[String(index)] = texture;
+			if (it.uuid !== undefined) {
+				lookup[it.uuid] = texture;
+			}
+			lookup[it.name] = texture;
+		});
+		return { lookup, textures };
+	}
+
+	/**
+	 * Decodes the textures embedded in a Blockbench project, and gives their images to the textures
+	 * the accessory was built with, so that the model and its bones are kept.
+	 */
+	private loadEmbeddedTextures(accessory: Accessory, model: BlockbenchModel, embedded: EmbeddedTextures): Promise<void> {
+		const id = accessory.id;
+		const token = {};
+		const promise = loadBlockbenchTextures(model).then(result => {
+			if (this.accessoryLoads.get(id)?.token === token && this.embeddedTextures.get(id) === embedded) {
+				this.accessoryLoads.delete(id);
+				Object.keys(result).forEach(key => {
+					const texture = embedded.lookup[key];
+					if (texture !== undefined && embedded.textures.has(texture)) {
+						texture.image = result[key].image;
+						texture.needsUpdate = true;
+					}
+				});
+				accessory.model.visible = true;
+			}
+			// a texture may be found under several keys
+			new Set(Object.values(result)).forEach(texture => texture.dispose());
+		});
+		this.accessoryLoads.set(id, { token, promise });
+		return promise;
+	}
+
+	/**
+	 * Disposes the embedded textures of an accessory.
+	 * If the accessory still uses them, its materials are switched to the texture of the accessory.
+	 */
+	private releaseEmbeddedTextures(id: string, restoreTexture: boolean = false): void {
+		const embedded = this.embeddedTextures.get(id);
+		if (embedded === undefined) {
+			return;
+		}
+		this.embeddedTextures.delete(id);
+		const accessory = this.playerObject.getAccessory(id);
+		if (restoreTexture && accessory !== undefined) {
+			accessory.model.traverse(object => {
+				if (object instanceof Mesh) {
+					(Array.isArray(object.material) ? object.material : [object.material]).forEach(material => {
+						if (material instanceof MeshStandardMaterial && material.map !== null && embedded.textures.has(material.map)) {
+							material.map = accessory.texture;
+							material.needsUpdate = true;
+						}
+					});
+				}
+			});
+		}
+		embedded.textures.forEach(texture => texture.dispose());
+	}
+
+	/**
+	 * Returns a promise that settles when the texture of an accessory that is being loaded from a URL is ready.
+	 * It rejects if the image fails to load, and resolves at once if no texture is being loaded.
+	 */
+	accessoryTextureLoaded(id: string): Promise<void> {
+		const load = this.accessoryLoads.get(id);
+		return load === undefined ? Promise.resolve() : load.promise;
+	}
+
+	/**
+	 * Removes an accessory from the player, and disposes its model and texture.
+	 * @returns whether the accessory existed
+	 */
+	removeAccessory(id: string): boolean {
+		this.accessoryLoads.delete(id);
+		const accessory = this.playerObject.getAccessory(id);
+		if (accessory !== undefined) {
+			accessory.model.removeEventListener("modelchange", this.onAccessoryModelChange);
+		}
+		const removed = this.playerObject.removeAccessory(id);
+		this.releaseEmbeddedTextures(id);
+		return removed;
+	}
+
+	/**
+	 * Replaces the model of an accessory, keeping its texture and attachment point.
+	 * @throws ModelValidationError if the model is malformed. In that case, the previous model is kept.
+	 */
+	setAccessoryModel(id: string, model: CustomModel): void {
+		const accessory = this.playerObject.getAccessory(id);
+		if (accessory === undefined) {
+			throw new Error(`Accessory "${id}" does not exist`);
+		}
+		accessory.model.setModel(model, accessory.texture);
+		this.releaseEmbeddedTextures(id);
+	}
+
+	getAccessory(id: string): Accessory | undefined {
+		return this.playerObject.getAccessory(id);
+	}
+
+	get accessories(): Array<Accessory> {
+		return this.playerObject.accessories;
+	}
+
+	loadAccessoryTexture(id: string, empty: null): void;
+	loadAccessoryTexture<S extends TextureSource | RemoteImage>(
+		id: string,
 		source: S,
 		options?: CustomModelOptions
 	): S extends TextureSource ? void : Promise<void>;
 
-	loadHat(
+	loadAccessoryTexture(
+		id: string,
 		source: TextureSource | RemoteImage | null,
 		options: CustomModelOptions = {}
 	): void | Promise<void> {
-		
 		if (source === null) {
-			this.resetHat();
+			this.accessoryLoads.delete(id);
+			this.resetAccessory(id);
 
 		} else if (isTextureSource(source)) {
-			loadCustomModelToCanvas(this.hatCanvas, source);
-			this.hatTexture.needsUpdate = true;
-			this.playerObject.hat.visible = true;
+			const accessory = this.playerObject.getAccessory(id);
+			if (accessory === undefined) {
+				throw new Error(`Accessory "${id}" does not exist`);
+			}
+			// a texture that is still loading would replace this one
+			this.accessoryLoads.delete(id);
+			this.releaseEmbeddedTextures(id, true);
+			loadCustomModelToCanvas(accessory.texture.image, source);
+			accessory.texture.needsUpdate = true;
+
+			if (options.makeVisible !== false) {
+				accessory.model.visible = true;
+			}
 
 		} else {
-			return loadImage(source).then(image => this.loadHat(image, options));
+			const accessory = this.playerObject.getAccessory(id);
+			if (accessory === undefined) {
+				return Promise.reject(new Error(`Accessory "${id}" does not exist`));
+			}
+			const token = {};
+			const promise = loadRemoteImage(source).then(image => {
+				// the image is dropped if the accessory has been removed or replaced, or if another texture has been loaded since
+				if (this.accessoryLoads.get(id)?.token === token && this.playerObject.getAccessory(id) === accessory) {
+					this.loadAccessoryTexture(id, image, options);
+				}
+			});
+			this.accessoryLoads.set(id, { token, promise });
+			return promise;
 		}
 	}
 
-	setNewHat(source: TextureSource | RemoteImage | null, json: any): void {
-		if (source === null) {
-			this.resetHat();
-		} else if (isTextureSource(source)) {
-			this.hatModel = json;
-			loadCustomModelToCanvas(this.hatCanvas, source);
-		} else {
-			loadImage(source).then(image => this.setNewHat(image, json));
+	resetAccessory(id: string): void {
+		const accessory = this.playerObject.getAccessory(id);
+		if (accessory !== undefined) {
+			accessory.model.visible = false;
 		}
 	}
 
-	resetHat(): void {
-		this.playerObject.hat.visible = false;
-	}
+	/**
+	 * Loads the texture of the "hat" accessory.
+	 */
+	loadHat(empty: null): void;
+	loadHat<S extends TextureSource | RemoteImage>(
+		source: S,
+		options?: CustomModelOptions
+	): S extends TextureSource ? void : Promise<void>;
 
-	loadSpecificHat(
+	loadHat(
 		source: TextureSource | RemoteImage | null,
-		i: any,
 		options: CustomModelOptions = {}
 	): void | Promise<void> {
-		//this.resetAllHats();
-		if (source === null) return;
+		if (source === null) {
+			this.resetHat();
+		} else {
+			return this.loadAccessoryTexture("hat", source, options);
+		}
+	}
 
-		if (isTextureSource(source)) {
-			//this.hatModel = json;
-			loadCustomModelToCanvas(this.hatCanvases[i].canvas, source);
-			this.hatTexture.needsUpdate = true;
-			this.playerObject.hats[i].visible = true;
+	/**
+	 * Replaces the model and texture of the "hat" accessory, or adds it if it does not exist.
+	 */
+	setNewHat(empty: null, json?: CustomModel): void;
+	setNewHat<S extends TextureSource | RemoteImage>(
+		source: S,
+		json: CustomModel
+	): S extends TextureSource ? void : Promise<void>;
 
+	setNewHat(source: TextureSource | RemoteImage | null, json?: CustomModel): void | Promise<void> {
+		if (source === null) {
+			this.resetHat();
+			return;
+		}
+		if (json === undefined) {
+			throw new Error("A hat model is required");
+		}
+		if (this.playerObject.getAccessory("hat") === undefined) {
+			this.addAccessory({ id: "hat", type: "hat", model: json });
 		} else {
-			return loadImage(source).then(image => this.loadSpecificHat(image, i, options));
+			this.setAccessoryModel("hat", json);
 		}
+		return this.loadAccessoryTexture("hat", source);
 	}
 
-	resetAllHats(toShow: any): void {
-		if (this.playerObject.hat1) this.playerObject.hat1.visible = toShow == 1;
-		if (this.playerObject.hat2) this.playerObject.hat2.visible = toShow == 2;
-		if (this.playerObject.hat3) this.playerObject.hat3.visible = toShow == 3;
-		if (this.playerObject.hat4) this.playerObject.hat4.visible = toShow == 4;
-		if (this.playerObject.hat5) this.playerObject.hat5.visible = toShow == 5;
-		if (this.playerObject.hat6) this.playerObject.hat6.visible = toShow == 6;
-		if (this.playerObject.hat7) this.playerObject.hat7.visible = toShow == 7;
-		if (this.playerObject.hat8) this.playerObject.hat8.visible = toShow == 8;
-		if (this.playerObject.hat9) this.playerObject.hat9.visible = toShow == 9;
+	resetHat(): void {
+		this.resetAccessory("hat");
 	}
 
+	/**
+	 * Loads the texture of the "shoulderBuddy" accessory.
+	 */
 	loadShoulderBuddy(empty: null): void;
 	loadShoulderBuddy<S extends TextureSource | RemoteImage>(
 		source: S,
@@ -543,30 +933,13 @@ export class SkinViewer {
 	): void | Promise<void> {
 		if (source === null) {
 			this.resetShoulderBuddy();
-
-		} else if (isTextureSource(source)) {
-			loadCustomModelToCanvas(this.shoulderBuddyCanvas, source);
-			this.shoulderBuddyTexture.needsUpdate = true;
-			this.playerObject.shoulderBuddy.visible = true;
 		} else {
-			return loadImage(source).then(image => this.loadShoulderBuddy(image, options));
+			return this.loadAccessoryTexture("shoulderBuddy", source, options);
 		}
 	}
 
 	resetShoulderBuddy(): void {
-		this.playerObject.shoulderBuddy.visible = false;
-	}
-
-	resetAllShoulderBuddies(toShow: any): void {
-		if (this.playerObject.shoulderBuddy1) this.playerObject.shoulderBuddy1.visible = toShow == 1;
-		if (this.playerObject.shoulderBuddy2) this.playerObject.shoulderBuddy2.visible = toShow == 2;
-		if (this.playerObject.shoulderBuddy3) this.playerObject.shoulderBuddy3.visible = toShow == 3;
-		if (this.playerObject.shoulderBuddy4) this.playerObject.shoulderBuddy4.visible = toShow == 4;
-		if (this.playerObject.shoulderBuddy5) this.playerObject.shoulderBuddy5.visible = toShow == 5;
-		if (this.playerObject.shoulderBuddy6) this.playerObject.shoulderBuddy6.visible = toShow == 6;
-		if (this.playerObject.shoulderBuddy7) this.playerObject.shoulderBuddy7.visible = toShow == 7;
-		if (this.playerObject.shoulderBuddy8) this.playerObject.shoulderBuddy8.visible = toShow == 8;
-		if (this.playerObject.shoulderBuddy9) this.playerObject.shoulderBuddy9.visible = toShow == 9;
+		this.resetAccessory("shoulderBuddy");
 	}
 
 	loadEars(empty: null): void;
@@ -595,7 +968,7 @@ export class SkinViewer {
 			}
 
 		} else {
-			return loadImage(source).then(image => this.loadEars(image, options));
+			return loadRemoteImage(source).then(image => this.loadEars(image, options));
 		}
 	}
 
@@ -630,14 +1003,21 @@ export class SkinViewer {
 			this.backgroundTexture.needsUpdate = true;
 			this.scene.background = this.backgroundTexture;
 		} else {
-			return loadImage(source).then(image => this.loadBackground(image, mapping));
+			return loadRemoteImage(source).then(image => this.loadBackground(image, mapping));
+		}
+	}
+
+	private onModelChange(): void {
+		// when paused, nothing else would show the new model
+		if (this._renderPaused && !this._disposed) {
+			this.render();
 		}
 	}
 
 	private draw(): void {
 		this.animations.runAnimationLoop(this.playerObject);
 		this.render();
-		this.animationID = window.requestAnimationFrame(() => this.draw());
+		this.animationID = requestFrame(() => this.draw());
 	}
 
 	/**
@@ -648,27 +1028,167 @@ export class SkinViewer {
 		this.renderer.render(this.scene, this.camera);
 	}
 
+	/**
+	 * Sets the progress of the animations to `time` seconds, applies them, and renders the scene.
+	 * Unlike the render loop, this does not depend on the time source or on `animations.paused`.
+	 *
+	 * Use this with `renderPaused: true` to get frames at exact animation times, e.g. in visual regression tests.
+	 */
+	renderAt(time: number): void {
+		this.animations.seek(this.playerObject, time);
+		this.render();
+	}
+
+	/**
+	 * Renders the scene, and encodes the image.
+	 * This method does not change the animation progress.
+	 */
+	renderToBlob(options: RenderToBlobOptions = {}): Promise<Blob> {
+		this.render();
+		const canvas = this.canvas;
+		if ("convertToBlob" in canvas) {
+			return canvas.convertToBlob(options);
+		}
+		return new Promise((resolve, reject) => canvas.toBlob(blob => {
+			if (blob === null) {
+				reject(new Error("Failed to encode the image"));
+			} else {
+				resolve(blob);
+			}
+		}, options.type, options.quality));
+	}
+
+	/**
+	 * Renders the scene, and reads back the pixels.
+	 * This method does not change the animation progress.
+	 *
+	 * The size of the image is the size of the drawing buffer, i.e. the size of the viewer times the pixel ratio.
+	 * Where `ImageData` does not exist (e.g. in Node), an object with the same properties is returned.
+	 */
+	renderToImageData(): ImageData {
+		this.render();
+		if (this.renderer instanceof SoftwareRenderer) {
+			const { data, width, height } = this.renderer.readPixels();
+			if (typeof ImageData !== "undefined") {
+				return new ImageData(new Uint8ClampedArray(data), width, height);
+			}
+			return { data: new Uint8ClampedArray(data), width, height } as ImageData;
+		}
+
+		const gl = this.renderer.getContext();
+		const width = gl.drawingBufferWidth;
+		const height = gl.drawingBufferHeight;
+		const pixels = new Uint8Array(width * height * 4);
+		gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+		// WebGL reads bottom-up and premultiplies alpha, while ImageData is top-down and straight
+		const data = new Uint8ClampedArray(width * height * 4);
+		for (let y = 0; y < height; y++) {
+			const source = (height - 1 - y) * width * 4;
+			data.set(pixels.subarray(source, source + width * 4), y * width * 4);
+		}
+		for (let i = 0; i < data.length; i += 4) {
+			const alpha = data[i + 3];
+			if (alpha > 0 && alpha < 255) {
+				data[i] = data[i] * 255 / alpha;
+				data[i + 1] = data[i + 1] * 255 / alpha;
+				data[i + 2] = data[i + 2] * 255 / alpha;
+			}
+		}
+
+		if (typeof ImageData !== "undefined") {
+			return new ImageData(data, width, height);
+		}
+		return { data, width, height } as ImageData;
+	}
+
+	/**
+	 * Records the animations, starting from their current progress.
+	 *
+	 * Instead of following the time source, the animations are advanced by exactly `1 / fps` seconds
+	 * (times `animations.speed`) per frame, so the poses in the frames do not depend on how slow the machine is.
+	 * The frames are encoded without any lossy browser codec, but the rendered pixels themselves can differ
+	 * slightly between GPUs and drivers.
+	 *
+	 * The render loop is suspended during the recording. Frames are rendered and encoded one at a time,
+	 * letting other tasks run in between, so the page stays responsive. The scene should not be changed meanwhile.
+	 */
+	recordAnimation(options: RecordAnimationOptions & { format: "png-sequence" }): Promise<Array<Blob>>;
+	recordAnimation(options: RecordAnimationOptions): Promise<Blob>;
+	async recordAnimation(options: RecordAnimationOptions): Promise<Blob | Array<Blob>> {
+		const fps = options.fps === undefined ? 30 : options.fps;
+		const format = options.format === undefined ? "gif" : options.format;
+		if (!(fps > 0) || !(options.duration > 0)) {
+			throw new Error("duration and fps must be positive");
+		}
+		if (!(this.width > 0) || !(this.height > 0)) {
+			throw new Error("Cannot record a viewer of size 0");
+		}
+
+		const frameCount = Math.max(1, Math.round(options.duration * fps));
+		const wasPaused = this._renderPaused;
+		this.renderPaused = true;
+		const frames: Array<ImageData> = [];
+		const start = this.animations.progress;
+		try {
+			for (let i = 0; i < frameCount; i++) {
+				this.animations.seek(this.playerObject, start + i / fps * this.animations.speed);
+				frames.push(this.renderToImageData());
+				await nextTask();
+			}
+		} finally {
+			this.renderPaused = wasPaused;
+		}
+
+		switch (format) {
+			case "gif":
+				return new Blob([await runInTasks(encodeGIFInSteps(frames, fps))], { type: "image/gif" });
+			case "apng":
+				return new Blob([await runInTasks(encodeAPNGInSteps(frames, fps))], { type: "image/apng" });
+			case "png-sequence": {
+				const blobs: Array<Blob> = [];
+				for (const frame of frames) {
+					blobs.push(new Blob([encodePNG(frame)], { type: "image/png" }));
+					await nextTask();
+				}
+				return blobs;
+			}
+			default:
+				// callers from JavaScript may pass anything
+				throw new Error(`Unknown recording format: ${JSON.stringify(format)}`);
+		}
+	}
+
 	setSize(width: number, height: number): void {
-		this.camera.aspect = width / height;
-		this.camera.updateProjectionMatrix();
-		this.renderer.setSize(width, height);
+		this.perspectiveCamera.aspect = width / height;
+		this.perspectiveCamera.updateProjectionMatrix();
+		this.updateOrthographicFrustum();
+		// only canvases in the DOM have a style
+		this.renderer.setSize(width, height, "style" in this.canvas);
+		if (this.presetSize !== null) {
+			this.fitPresetSize(this.presetSize);
+		}
 	}
 
 	dispose(): void {
 		this._disposed = true;
 
-		this.canvas.removeEventListener("webglcontextlost", this.onContextLost, false);
-		this.canvas.removeEventListener("webglcontextrestored", this.onContextRestored, false);
+		if (typeof this.canvas.removeEventListener === "function") {
+			this.canvas.removeEventListener("webglcontextlost", this.onContextLost, false);
+			this.canvas.removeEventListener("webglcontextrestored", this.onContextRestored, false);
+		}
 
 		if (this.animationID !== null) {
-			window.cancelAnimationFrame(this.animationID);
+			cancelFrame(this.animationID);
 			this.animationID = null;
 		}
 
 		this.renderer.dispose();
 		this.skinTexture.dispose();
 		this.capeTexture.dispose();
-		this.hatTexture.dispose();
+		this.earsTexture.dispose();
+		this.accessoryLoads.clear();
+		this.playerObject.accessories.forEach(accessory => this.removeAccessory(accessory.id));
 		if (this.backgroundTexture !== null) {
 			this.backgroundTexture.dispose();
 			this.backgroundTexture = null;
@@ -692,10 +1212,10 @@ export class SkinViewer {
 		this._renderPaused = value;
 
 		if (this._renderPaused && this.animationID !== null) {
-			window.cancelAnimationFrame(this.animationID);
+			cancelFrame(this.animationID);
 			this.animationID = null;
-		} else if (!this._renderPaused && !this._disposed && !this.renderer.getContext().isContextLost() && this.animationID == null) {
-			this.animationID = window.requestAnimationFrame(() => this.draw());
+		} else if (!this._renderPaused && !this._disposed && !this.isContextLost() && this.animationID == null) {
+			this.animationID = requestFrame(() => this.draw());
 		}
 	}
 
@@ -742,15 +1262,63 @@ export class SkinViewer {
 		}
 
 		this.camera.position.multiplyScalar(distance / this.camera.position.length());
-		this.camera.updateProjectionMatrix();
+		this.perspectiveCamera.updateProjectionMatrix();
+		this.updateOrthographicFrustum();
+	}
+
+	/**
+	 * Makes the orthographic camera frame the same region as the perspective camera does,
+	 * i.e. a height of 33 / zoom around the origin.
+	 */
+	private updateOrthographicFrustum(): void {
+		const halfHeight = 16.5 / this.zoom;
+		const halfWidth = halfHeight * this.perspectiveCamera.aspect;
+		this.orthographicCamera.left = -halfWidth;
+		this.orthographicCamera.right = halfWidth;
+		this.orthographicCamera.top = halfHeight;
+		this.orthographicCamera.bottom = -halfHeight;
+		this.orthographicCamera.updateProjectionMatrix();
+	}
+
+	/**
+	 * The camera used for rendering, which depends on `projection`.
+	 */
+	get camera(): PerspectiveCamera | OrthographicCamera {
+		return this._projection === "orthographic" ? this.orthographicCamera : this.perspectiveCamera;
+	}
+
+	/**
+	 * The projection of the camera. When it is changed, the new camera takes the place of the previous one,
+	 * and `cameraListeners` are called.
+	 */
+	get projection(): CameraProjection {
+		return this._projection;
 	}
 
+	set projection(value: CameraProjection) {
+		if (value === this._projection) {
+			return;
+		}
+		const previous = this.camera;
+		this._projection = value;
+		const camera = this.camera;
+		camera.position.copy(previous.position);
+		camera.quaternion.copy(previous.quaternion);
+		camera.add(this.cameraLight);
+		this.adjustCameraDistance();
+		this.cameraListeners.forEach(listener => listener(camera));
+	}
+
+	/**
+	 * Camera vertical field of view, in degrees.
+	 * It only affects the perspective camera, but the distance of both cameras is computed from it.
+	 */
 	get fov(): number {
-		return this.camera.fov;
+		return this.perspectiveCamera.fov;
 	}
 
 	set fov(value: number) {
-		this.camera.fov = value;
+		this.perspectiveCamera.fov = value;
 		this.adjustCameraDistance();
 	}
 
@@ -760,6 +1328,46 @@ export class SkinViewer {
 
 	set zoom(value: number) {
 		this._zoom = value;
+		this.presetSize = null;
 		this.adjustCameraDistance();
 	}
+
+	private fitPresetSize(size: Vector2Tuple): void {
+		// a zoom of 1 frames a height of 33
+		this._zoom = 33 / Math.max(size[1], size[0] / this.perspectiveCamera.aspect);
+		this.adjustCameraDistance();
+	}
+
+	/**
+	 * Sets up the camera, framing, pose and lighting for a standard render, such as an avatar.
+	 *
+	 * The framed region is moved to the origin by moving `playerWrapper`, so that orbit controls rotate around it.
+	 * Animations are not stopped. For stable output, pause or remove them before rendering.
+	 */
+	applyPreset(preset: RenderPresetName | RenderPreset): void {
+		const { direction, target, size, fov, projection, globalLight, cameraLight, cameraLightPosition, resetPose } =
+			typeof preset === "string" ? RENDER_PRESETS[preset] : preset;
+
+		if (resetPose !== false) {
+			this.playerObject.resetPose();
+		}
+		this.playerWrapper.position.set(-target[0], -target[1], -target[2]);
+
+		if (projection !== undefined) {
+			this.projection = projection;
+		}
+		this.camera.position.set(direction[0], direction[1], direction[2]).normalize();
+		this.camera.lookAt(0, 0, 0);
+		this.perspectiveCamera.fov = fov;
+		this.presetSize = [size[0], size[1]];
+		this.fitPresetSize(this.presetSize);
+
+		this.globalLight.intensity = globalLight;
+		this.cameraLight.intensity = cameraLight;
+		if (cameraLightPosition === undefined) {
+			this.cameraLight.position.set(0, 0, 0);
+		} else {
+			this.cameraLight.position.set(cameraLightPosition[0], cameraLightPosition[1], cameraLightPosition[2]);
+		}
+	}
 }